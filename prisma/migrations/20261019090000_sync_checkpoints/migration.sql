@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "LeagueSeason" ADD COLUMN     "frozen" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "lastSyncedAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT;
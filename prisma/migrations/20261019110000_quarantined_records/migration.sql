@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "QuarantinedRecord" (
+    "id" TEXT NOT NULL,
+    "syncRunId" TEXT,
+    "leagueId" TEXT NOT NULL,
+    "season" INTEGER,
+    "week" INTEGER,
+    "kind" TEXT NOT NULL,
+    "recordKey" TEXT,
+    "rawJson" JSONB NOT NULL,
+    "error" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuarantinedRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuarantinedRecord_leagueId_kind_idx" ON "QuarantinedRecord"("leagueId", "kind");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "LeagueSeason" ADD COLUMN     "syncError" TEXT,
+ADD COLUMN     "syncStatus" TEXT;
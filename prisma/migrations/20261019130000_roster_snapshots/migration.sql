@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "RosterSnapshot" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "rosterId" INTEGER NOT NULL,
+    "ownerId" TEXT,
+    "source" TEXT NOT NULL,
+    "players" TEXT[],
+    "starters" TEXT[],
+    "reserve" TEXT[],
+    "taxi" TEXT[],
+    "wins" INTEGER,
+    "losses" INTEGER,
+    "ties" INTEGER,
+    "fpts" DOUBLE PRECISION,
+    "fptsAgainst" DOUBLE PRECISION,
+    "waiverBudgetUsed" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RosterSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RosterSnapshot_leagueId_season_rosterId_idx" ON "RosterSnapshot"("leagueId", "season", "rosterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RosterSnapshot_leagueId_season_week_rosterId_key" ON "RosterSnapshot"("leagueId", "season", "week", "rosterId");
+
+-- AddForeignKey
+ALTER TABLE "RosterSnapshot" ADD CONSTRAINT "RosterSnapshot_leagueId_season_rosterId_fkey" FOREIGN KEY ("leagueId", "season", "rosterId") REFERENCES "Roster"("leagueId", "season", "rosterId") ON DELETE CASCADE ON UPDATE CASCADE;
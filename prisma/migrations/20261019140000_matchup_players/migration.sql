@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "MatchupPlayer" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "rosterId" INTEGER NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "points" DOUBLE PRECISION,
+    "starter" BOOLEAN NOT NULL,
+    "starterSlot" INTEGER,
+
+    CONSTRAINT "MatchupPlayer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MatchupPlayer_playerId_idx" ON "MatchupPlayer"("playerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchupPlayer_leagueId_season_week_rosterId_playerId_key" ON "MatchupPlayer"("leagueId", "season", "week", "rosterId", "playerId");
+
+-- AddForeignKey
+ALTER TABLE "MatchupPlayer" ADD CONSTRAINT "MatchupPlayer_leagueId_season_week_rosterId_fkey" FOREIGN KEY ("leagueId", "season", "week", "rosterId") REFERENCES "Matchup"("leagueId", "season", "week", "rosterId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Draft" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "type" TEXT,
+    "status" TEXT,
+    "rounds" INTEGER,
+    "startTime" BIGINT,
+    "draftOrder" JSONB,
+    "slotToRosterId" JSONB,
+    "rawJson" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Draft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DraftPick" (
+    "id" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "pickNo" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "draftSlot" INTEGER,
+    "rosterId" INTEGER,
+    "originalRosterId" INTEGER,
+    "pickedBy" TEXT,
+    "playerId" TEXT,
+    "isKeeper" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DraftPick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Draft_leagueId_season_idx" ON "Draft"("leagueId", "season");
+
+-- CreateIndex
+CREATE INDEX "DraftPick_playerId_idx" ON "DraftPick"("playerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DraftPick_draftId_pickNo_key" ON "DraftPick"("draftId", "pickNo");
+
+-- AddForeignKey
+ALTER TABLE "DraftPick" ADD CONSTRAINT "DraftPick_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "TransactionAsset" ADD COLUMN     "pickOriginalRosterId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TradedPick" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "originalRosterId" INTEGER NOT NULL,
+    "ownerRosterId" INTEGER NOT NULL,
+    "previousOwnerRosterId" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TradedPick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradedPick_leagueId_season_round_originalRosterId_key" ON "TradedPick"("leagueId", "season", "round", "originalRosterId");
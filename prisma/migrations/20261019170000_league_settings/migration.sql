@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "LeagueSeason" ADD COLUMN     "avatar" TEXT,
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "playoffTeams" INTEGER,
+ADD COLUMN     "rosterPositions" TEXT[],
+ADD COLUMN     "scoringSettings" JSONB,
+ADD COLUMN     "settingsJson" JSONB,
+ADD COLUMN     "tradeDeadline" INTEGER,
+ADD COLUMN     "waiverBudget" INTEGER,
+ADD COLUMN     "waiverType" INTEGER;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "SleeperPlayer" ADD COLUMN     "injuryStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "PlayerChange" (
+    "id" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "syncRunId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlayerChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlayerChange_playerId_createdAt_idx" ON "PlayerChange"("playerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PlayerChange_createdAt_idx" ON "PlayerChange"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PlayerChange" ADD CONSTRAINT "PlayerChange_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "SleeperPlayer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
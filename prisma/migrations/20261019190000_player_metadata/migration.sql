@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "SleeperPlayer" ADD COLUMN     "age" INTEGER,
+ADD COLUMN     "birthDate" TEXT,
+ADD COLUMN     "college" TEXT,
+ADD COLUMN     "depthChartOrder" INTEGER,
+ADD COLUMN     "depthChartPosition" TEXT,
+ADD COLUMN     "fantasyPositions" TEXT[],
+ADD COLUMN     "height" TEXT,
+ADD COLUMN     "searchRank" INTEGER,
+ADD COLUMN     "weight" TEXT,
+ADD COLUMN     "yearsExp" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "SleeperPlayer_searchRank_idx" ON "SleeperPlayer"("searchRank");
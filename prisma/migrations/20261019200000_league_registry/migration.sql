@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "League" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rootLeagueId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "League_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "League_slug_key" ON "League"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "League_rootLeagueId_key" ON "League"("rootLeagueId");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "TransactionView" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "week" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "rosterIds" INTEGER[],
+    "playerIds" TEXT[],
+    "item" JSONB NOT NULL,
+    "builtAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransactionView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransactionFacetCache" (
+    "rootLeagueId" TEXT NOT NULL,
+    "leagueIds" TEXT[],
+    "seasonToLeagueId" JSONB NOT NULL,
+    "facets" JSONB NOT NULL,
+    "syncedThrough" TIMESTAMP(3),
+    "builtAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransactionFacetCache_pkey" PRIMARY KEY ("rootLeagueId")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionView_leagueId_season_createdAt_id_idx" ON "TransactionView"("leagueId", "season", "createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "TransactionView_playerIds_idx" ON "TransactionView" USING GIN ("playerIds");
+
+-- AddForeignKey
+ALTER TABLE "TransactionView" ADD CONSTRAINT "TransactionView_id_fkey" FOREIGN KEY ("id") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
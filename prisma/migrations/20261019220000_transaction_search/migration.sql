@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "TransactionView" ADD COLUMN "searchText" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "TransactionView" ADD COLUMN "searchVector" tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple'::regconfig, "searchText")) STORED;
+
+-- CreateIndex
+CREATE INDEX "TransactionView_searchVector_idx" ON "TransactionView" USING GIN ("searchVector");
+
+-- Existing views have no searchText: drop them and the facet caches; the next sync
+-- of each league rebuilds every view
+DELETE FROM "TransactionView";
+DELETE FROM "TransactionFacetCache";
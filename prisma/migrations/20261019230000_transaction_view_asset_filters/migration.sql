@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "TransactionView" ADD COLUMN "assetKinds" TEXT[],
+ADD COLUMN "pickRounds" INTEGER[],
+ADD COLUMN "faab" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing views have no asset columns: drop them and the facet caches; the next sync
+-- of each league rebuilds every view
+DELETE FROM "TransactionView";
+DELETE FROM "TransactionFacetCache";
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "FilterPreset" (
+    "id" TEXT NOT NULL,
+    "appUserId" TEXT NOT NULL,
+    "rootLeagueId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FilterPreset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FilterPreset_appUserId_rootLeagueId_name_key" ON "FilterPreset"("appUserId", "rootLeagueId", "name");
+
+-- AddForeignKey
+ALTER TABLE "FilterPreset" ADD CONSTRAINT "FilterPreset_appUserId_fkey" FOREIGN KEY ("appUserId") REFERENCES "AppUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
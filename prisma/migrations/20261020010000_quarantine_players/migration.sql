@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "QuarantinedRecord" ALTER COLUMN "leagueId" DROP NOT NULL;
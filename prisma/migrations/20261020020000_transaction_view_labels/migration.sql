@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "TransactionViewLabels" (
+    "rootLeagueId" TEXT NOT NULL,
+    "labels" JSONB NOT NULL,
+    "builtAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransactionViewLabels_pkey" PRIMARY KEY ("rootLeagueId")
+);
@@ -0,0 +1,4 @@
+-- Views now carry commissioner moves between rosters (TxItem.moved): drop them and the
+-- facet caches; the next sync of each league rebuilds every view
+DELETE FROM "TransactionView";
+DELETE FROM "TransactionFacetCache";
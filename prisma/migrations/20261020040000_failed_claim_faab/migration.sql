@@ -0,0 +1,8 @@
+-- Failed claims and trades spend no FAAB: drop the FAAB assets stored for them, and the
+-- views (their faab column) and facet caches; the next sync of each league rebuilds every view
+DELETE FROM "TransactionAsset" a
+USING "Transaction" t
+WHERE a."transactionId" = t."id" AND a."kind" = 'faab' AND t."status" <> 'complete';
+
+DELETE FROM "TransactionView";
+DELETE FROM "TransactionFacetCache";
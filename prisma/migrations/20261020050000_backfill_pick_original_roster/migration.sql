@@ -0,0 +1,25 @@
+-- Pick assets synced before pickOriginalRosterId existed: fill it from the transaction's
+-- draft_picks entry with the same season, round and from/to rosters. Frozen seasons are
+-- never synced again, so this can't wait for the sync. Ambiguous matches stay null.
+UPDATE "TransactionAsset" a
+SET "pickOriginalRosterId" = m."rosterId"
+FROM (
+  SELECT a2."id", MIN((dp->>'roster_id')::int) AS "rosterId"
+  FROM "TransactionAsset" a2
+  JOIN "Transaction" t ON t."id" = a2."transactionId"
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE
+      WHEN jsonb_typeof(t."rawJson"->'draft_picks') = 'array' THEN t."rawJson"->'draft_picks'
+      ELSE '[]'::jsonb
+    END
+  ) dp
+  WHERE a2."kind" = 'pick'
+    AND a2."pickOriginalRosterId" IS NULL
+    AND dp->>'season' = a2."pickSeason"::text
+    AND dp->>'round' = a2."pickRound"::text
+    AND dp->>'previous_owner_id' = a2."fromRosterId"::text
+    AND dp->>'owner_id' = a2."toRosterId"::text
+  GROUP BY a2."id"
+  HAVING COUNT(DISTINCT dp->>'roster_id') = 1
+) m
+WHERE a."id" = m."id";
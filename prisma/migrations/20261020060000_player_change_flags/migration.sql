@@ -0,0 +1,13 @@
+-- Player change logging is switched on per field by an AppMeta flag (see lib/playersSync).
+-- Databases that already hold players have been logging team/status/position, and
+-- injuryStatus once it has been filled in: flag those so they stay logged.
+INSERT INTO "AppMeta" ("key", "value", "updatedAt")
+SELECT 'players:logged:' || f, NULL, CURRENT_TIMESTAMP
+FROM unnest(ARRAY['team', 'status', 'position']) AS f
+WHERE EXISTS (SELECT 1 FROM "SleeperPlayer")
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "AppMeta" ("key", "value", "updatedAt")
+SELECT 'players:logged:injuryStatus', NULL, CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "SleeperPlayer" WHERE "injuryStatus" IS NOT NULL)
+ON CONFLICT ("key") DO NOTHING;
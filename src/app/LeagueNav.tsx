@@ -0,0 +1,76 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import type { LeagueEntry } from "@/lib/leagues";
+
+const LINKS = [
+  { path: "/transactions", label: "Transactions" },
+  { path: "/h2h", label: "Head-to-Head" },
+  { path: "/picks", label: "Picks" },
+  { path: "/news", label: "News" },
+  { path: "/league", label: "League" },
+];
+
+function NavLink({ href, label, active }: { href: string; label: string; active: boolean }) {
+  return (
+    <a
+      href={href}
+      className={`rounded-xl px-3 py-2 text-sm font-medium hover:bg-zinc-100 hover:text-zinc-900 ${
+        active ? "bg-zinc-100 text-zinc-900" : "text-zinc-700"
+      }`}
+    >
+      {label}
+    </a>
+  );
+}
+
+/**
+ * Header nav: links point into the league being viewed (/l/<slug>/...), or the
+ * first registered league elsewhere. The switcher keeps the current section.
+ */
+export default function LeagueNav({ leagues }: { leagues: LeagueEntry[] }) {
+  const pathname = usePathname() ?? "/";
+  const m = pathname.match(/^\/l\/([^/]+)(\/[^/]+)?/);
+
+  const current = leagues.find((l) => l.slug === m?.[1]) ?? leagues[0];
+  // Team/player ids don't carry over between leagues: those pages switch to Transactions
+  const section = LINKS.some((l) => l.path === m?.[2]) ? m![2] : "/transactions";
+
+  if (!current) {
+    return (
+      <nav className="flex items-center gap-1">
+        <NavLink href="/setup" label="Set up a league" active={pathname === "/setup"} />
+      </nav>
+    );
+  }
+
+  return (
+    <nav className="flex items-center gap-1">
+      {LINKS.map((l) => (
+        <NavLink
+          key={l.path}
+          href={`/l/${current.slug}${l.path}`}
+          label={l.label}
+          active={m?.[2] === l.path}
+        />
+      ))}
+
+      {leagues.length > 1 && (
+        <select
+          aria-label="League"
+          className="ml-2 rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+          value={current.slug}
+          onChange={(e) => {
+            window.location.href = `/l/${e.target.value}${section}`;
+          }}
+        >
+          {leagues.map((l) => (
+            <option key={l.slug} value={l.slug}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </nav>
+  );
+}
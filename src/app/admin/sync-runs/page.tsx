@@ -0,0 +1,111 @@
+import { db } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+function fmtDateTime(d: Date) {
+  return d.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function fmtDuration(start: Date, end: Date | null) {
+  if (!end) return "—";
+  const secs = Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000));
+  if (secs < 60) return `${secs}s`;
+  return `${Math.floor(secs / 60)}m ${secs % 60}s`;
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const cls =
+    status === "ok"
+      ? "bg-emerald-50 text-emerald-800 border-emerald-200"
+      : status === "failed"
+        ? "bg-rose-50 text-rose-800 border-rose-200"
+        : "bg-amber-50 text-amber-800 border-amber-200";
+  return (
+    <span className={`inline-flex rounded-xl border px-2 py-0.5 text-xs font-semibold ${cls}`}>
+      {status}
+    </span>
+  );
+}
+
+export default async function SyncRunsPage() {
+  const runs = await db.syncRun.findMany({
+    orderBy: { startedAt: "desc" },
+    take: 100,
+  });
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">Sync runs</h1>
+        <p className="mt-1 text-sm text-zinc-600">
+          Last {runs.length} runs of /api/sync, /api/sync-history and /api/players/sync.
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-xs uppercase tracking-wide text-zinc-500">
+              <tr>
+                <th className="px-4 py-3 text-left">Started</th>
+                <th className="px-4 py-3 text-left">Kind</th>
+                <th className="px-4 py-3 text-left">Trigger</th>
+                <th className="px-4 py-3 text-left">Status</th>
+                <th className="px-4 py-3 text-right">Duration</th>
+                <th className="px-4 py-3 text-left">Leagues</th>
+                <th className="px-4 py-3 text-left">Counts</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200">
+              {runs.map((r) => {
+                const counts = Object.entries((r.counts ?? {}) as Record<string, number>);
+                return (
+                  <tr key={r.id} className="align-top hover:bg-zinc-50">
+                    <td className="px-4 py-3 whitespace-nowrap">{fmtDateTime(r.startedAt)}</td>
+                    <td className="px-4 py-3">{r.kind}</td>
+                    <td className="px-4 py-3">{r.trigger}</td>
+                    <td className="px-4 py-3">
+                      <StatusBadge status={r.status} />
+                      {r.error && (
+                        <details className="mt-2 max-w-md">
+                          <summary className="cursor-pointer text-xs text-rose-700">{r.error}</summary>
+                          {r.errorStack && (
+                            <pre className="mt-2 overflow-x-auto whitespace-pre-wrap text-xs text-zinc-500">
+                              {r.errorStack}
+                            </pre>
+                          )}
+                        </details>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums">
+                      {fmtDuration(r.startedAt, r.finishedAt)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-zinc-600">
+                      {r.leagueIds.length > 0 ? r.leagueIds.join(", ") : "—"}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-zinc-600">
+                      {counts.length === 0
+                        ? "—"
+                        : counts.map(([k, v]) => (
+                            <div key={k}>
+                              {k}: <span className="tabular-nums text-zinc-900">{v}</span>
+                            </div>
+                          ))}
+                    </td>
+                  </tr>
+                );
+              })}
+              {runs.length === 0 && (
+                <tr>
+                  <td className="px-4 py-8 text-center text-zinc-500" colSpan={7}>
+                    No sync runs recorded yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { backupStream } from "@/lib/backup";
+import { hasBearerSecret } from "@/lib/secretAuth";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * Downloads a backup archive of every league (see lib/backup for the format).
+ * Auth: `Authorization: Bearer $ADMIN_SECRET`.
+ *
+ * GET /api/admin/backup
+ *   curl -H "Authorization: Bearer $ADMIN_SECRET" -o backup.ndjson.gz .../api/admin/backup
+ */
+export async function GET(req: Request) {
+  if (!process.env.ADMIN_SECRET) {
+    return NextResponse.json({ ok: false, error: "ADMIN_SECRET is not configured" }, { status: 500 });
+  }
+  if (!hasBearerSecret(req, process.env.ADMIN_SECRET)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return new Response(backupStream(), {
+    headers: {
+      "Content-Type": "application/gzip",
+      "Content-Disposition": `attachment; filename="dynasty-hub-backup-${stamp}.ndjson.gz"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
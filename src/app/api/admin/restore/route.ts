@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { restoreBackup } from "@/lib/backup";
+import { withAdvisoryLock } from "@/lib/lock";
+import { hasBearerSecret } from "@/lib/secretAuth";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * Restores an archive from /api/admin/backup (request body = the .ndjson.gz file).
+ * Intended for an empty database (new host, or after wiping a bad sync). Existing rows
+ * are kept and skipped, so an interrupted restore can simply be sent again.
+ * Auth: `Authorization: Bearer $ADMIN_SECRET`.
+ *
+ * POST /api/admin/restore
+ *   curl -H "Authorization: Bearer $ADMIN_SECRET" --data-binary @backup.ndjson.gz .../api/admin/restore
+ */
+export async function POST(req: Request) {
+  if (!process.env.ADMIN_SECRET) {
+    return NextResponse.json({ ok: false, error: "ADMIN_SECRET is not configured" }, { status: 500 });
+  }
+  if (!hasBearerSecret(req, process.env.ADMIN_SECRET)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  if (!req.body) {
+    return NextResponse.json({ ok: false, error: "Missing backup archive" }, { status: 400 });
+  }
+
+  try {
+    const body = req.body;
+    const locked = await withAdvisoryLock("admin:restore", () => restoreBackup(body));
+
+    if (!locked.acquired) {
+      return NextResponse.json({ ok: false, error: "A restore is already running" }, { status: 409 });
+    }
+
+    const result = locked.value;
+    // Truncated archive: what was read is restored, but the caller should know it's partial
+    return NextResponse.json(
+      { ok: result.complete, ...result },
+      { status: result.complete ? 200 : 422 }
+    );
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
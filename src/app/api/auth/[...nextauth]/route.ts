@@ -1,10 +1,12 @@
 // Lazy-load auth so Next build doesn't evaluate NextAuth config at build time
-export async function GET(req: Request) {
-  const { handlers } = await import("@/auth");
-  return handlers.GET(req);
+type Ctx = { params: Promise<{ nextauth: string[] }> };
+
+export async function GET(req: Request, ctx: Ctx) {
+  const { authHandler } = await import("@/auth");
+  return authHandler(req, ctx);
 }
 
-export async function POST(req: Request) {
-  const { handlers } = await import("@/auth");
-  return handlers.POST(req);
+export async function POST(req: Request, ctx: Ctx) {
+  const { authHandler } = await import("@/auth");
+  return authHandler(req, ctx);
 }
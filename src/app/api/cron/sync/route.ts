@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { listLeagues, seedLeagueRegistry } from "@/lib/leagues";
+import { withAdvisoryLock } from "@/lib/lock";
+import { syncPlayers } from "@/lib/playersSync";
+import { hasBearerSecret } from "@/lib/secretAuth";
+import { syncLeague } from "@/lib/sync";
+import type { LeagueSyncResult } from "@/lib/sync";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * Scheduled sync entry point for any cron service (Vercel Cron, GitHub Actions, crontab + curl...).
+ *
+ * Syncs the current season of every registered league, one after another, and then the
+ * players dictionary.
+ * Auth: `Authorization: Bearer $CRON_SECRET`.
+ * A Postgres advisory lock makes overlapping triggers back off (409) instead of interleaving writes.
+ *
+ * GET|POST /api/cron/sync
+ */
+async function handle(req: Request) {
+  if (!process.env.CRON_SECRET) {
+    return NextResponse.json({ ok: false, error: "CRON_SECRET is not configured" }, { status: 500 });
+  }
+  if (!hasBearerSecret(req, process.env.CRON_SECRET)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await seedLeagueRegistry();
+    const registered = await listLeagues();
+    if (registered.length === 0) throw new Error("No leagues registered (and no SLEEPER_LEAGUE_ID)");
+
+    const locked = await withAdvisoryLock("cron:sync", async () => {
+      const leagues: Record<string, LeagueSyncResult> = {};
+      for (const l of registered) {
+        leagues[l.slug] = await syncLeague(l.rootLeagueId, { trigger: "cron" });
+      }
+      const players = await syncPlayers({ trigger: "cron" });
+      return { leagues, players };
+    });
+
+    if (!locked.acquired) {
+      return NextResponse.json(
+        { ok: false, error: "A scheduled sync is already running" },
+        { status: 409 }
+      );
+    }
+
+    const { leagues, players } = locked.value;
+    const ok = Object.values(leagues).every((l) => l.ok) && players.ok;
+    return NextResponse.json({ ok, leagues, players }, { status: ok ? 200 : 500 });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
+
+export async function GET(req: Request) {
+  return handle(req);
+}
+
+export async function POST(req: Request) {
+  return handle(req);
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getTransactions } from "@/lib/sleeper";
+import { transactionSchema, validateEach } from "@/lib/sleeperSchemas";
 
 export async function GET(req: Request) {
   try {
@@ -11,7 +12,10 @@ export async function GET(req: Request) {
       return NextResponse.json({ ok: false, error: "Missing leagueId" }, { status: 400 });
     }
 
-    const txs = await getTransactions(leagueId, week);
+    const { valid: txs, invalid } = validateEach(
+      transactionSchema,
+      await getTransactions(leagueId, week)
+    );
 
     const sample = txs.slice(0, 3).map((t) => ({
       transaction_id: t.transaction_id,
@@ -28,6 +32,7 @@ export async function GET(req: Request) {
       leagueId,
       week,
       count: txs.length,
+      invalid: invalid.length,
       sample,
     });
   } catch (e: any) {
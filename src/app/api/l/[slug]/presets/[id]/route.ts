@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getLeagueBySlug } from "@/lib/leagues";
+import { currentAppUserId } from "@/lib/session";
+
+/*
+  DELETE /api/l/<slug>/presets/<id>   removes one of the signed-in user's presets of that league
+*/
+
+type Ctx = { params: Promise<{ slug: string; id: string }> };
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    const { slug, id } = await params;
+    const league = await getLeagueBySlug(slug);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "Unknown league" }, { status: 404 });
+    }
+
+    const appUserId = await currentAppUserId();
+    if (!appUserId) {
+      return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 401 });
+    }
+
+    const { count } = await db.filterPreset.deleteMany({
+      where: { id, appUserId, rootLeagueId: league.rootLeagueId },
+    });
+    if (count === 0) {
+      return NextResponse.json({ ok: false, error: "Preset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { getLeagueBySlug } from "@/lib/leagues";
+import { currentAppUserId } from "@/lib/session";
+
+/*
+  Saved transactions-page filters of the signed-in user, for one league.
+
+  GET  /api/l/<slug>/presets                      { presets }
+  POST /api/l/<slug>/presets  {"name","query"}    saves (same name = overwrite)
+
+  Both answer 401 when nobody is signed in.
+*/
+
+type Ctx = { params: Promise<{ slug: string }> };
+
+const presetBody = z.object({
+  name: z.string().trim().min(1).max(60),
+  query: z.string().max(2000),
+});
+
+const select = { id: true, name: true, query: true } as const;
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const league = await getLeagueBySlug((await params).slug);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "Unknown league" }, { status: 404 });
+    }
+
+    const appUserId = await currentAppUserId();
+    if (!appUserId) {
+      return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 401 });
+    }
+
+    const presets = await db.filterPreset.findMany({
+      where: { appUserId, rootLeagueId: league.rootLeagueId },
+      orderBy: { name: "asc" },
+      select,
+    });
+
+    return NextResponse.json({ ok: true, presets });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: Ctx) {
+  try {
+    const league = await getLeagueBySlug((await params).slug);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "Unknown league" }, { status: 404 });
+    }
+
+    const appUserId = await currentAppUserId();
+    if (!appUserId) {
+      return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 401 });
+    }
+
+    const body = presetBody.safeParse(await req.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json({ ok: false, error: "Expected a name and a query" }, { status: 400 });
+    }
+
+    const { name } = body.data;
+    const query = body.data.query.replace(/^\?/, "");
+    const rootLeagueId = league.rootLeagueId;
+
+    const preset = await db.filterPreset.upsert({
+      where: { appUserId_rootLeagueId_name: { appUserId, rootLeagueId, name } },
+      update: { query },
+      create: { appUserId, rootLeagueId, name, query },
+      select,
+    });
+
+    return NextResponse.json({ ok: true, preset });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
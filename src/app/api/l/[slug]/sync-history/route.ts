@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getLeagueBySlug } from "@/lib/leagues";
+import { syncLeagueHistory } from "@/lib/sync";
+import { triggerFrom } from "@/lib/syncRuns";
+
+/**
+ * Syncs every season of a registered league, walking back from its root league id.
+ * Same options as /api/sync-history.
+ *
+ * POST /api/l/<slug>/sync-history
+ * POST /api/l/<slug>/sync-history?maxDepth=15&concurrency=3&full=1
+ */
+
+type Ctx = { params: Promise<{ slug: string }> };
+
+export async function POST(req: Request, { params }: Ctx) {
+  try {
+    const league = await getLeagueBySlug((await params).slug);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "Unknown league" }, { status: 404 });
+    }
+
+    const url = new URL(req.url);
+    const maxDepth = Number(url.searchParams.get("maxDepth") ?? 15);
+    const concurrency = Math.min(6, Math.max(1, Number(url.searchParams.get("concurrency") ?? 3) || 3));
+
+    const result = await syncLeagueHistory(league.rootLeagueId, {
+      maxDepth,
+      concurrency,
+      full: url.searchParams.get("full") === "1",
+      trigger: triggerFrom(req),
+    });
+
+    return NextResponse.json(result, { status: result.ok ? 200 : 500 });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
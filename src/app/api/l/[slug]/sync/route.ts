@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getLeagueBySlug } from "@/lib/leagues";
+import { syncLeague } from "@/lib/sync";
+import { triggerFrom } from "@/lib/syncRuns";
+
+/*
+  Syncs the current season of a registered league. Same as /api/sync, but the
+  league comes from the registry instead of ?leagueId.
+
+  POST /api/l/<slug>/sync
+  POST /api/l/<slug>/sync?full=1
+*/
+
+type Ctx = { params: Promise<{ slug: string }> };
+
+export async function POST(req: Request, { params }: Ctx) {
+  try {
+    const league = await getLeagueBySlug((await params).slug);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "Unknown league" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const result = await syncLeague(league.rootLeagueId, {
+      full: searchParams.get("full") === "1",
+      trigger: triggerFrom(req),
+    });
+
+    return NextResponse.json(result, { status: result.ok ? 200 : 500 });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { listLeagues, registerLeague } from "@/lib/leagues";
+import { hasBearerSecret } from "@/lib/secretAuth";
+
+export const dynamic = "force-dynamic";
+
+/*
+  League registry
+
+  GET  /api/leagues
+  POST /api/leagues?leagueId=123&name=Main%20League&slug=main   (name/slug optional)
+
+  leagueId is the league's CURRENT Sleeper league id; older seasons are found
+  through previous_league_id when syncing history.
+
+  POST auth: `Authorization: Bearer $ADMIN_SECRET` (registered leagues are synced by the cron).
+*/
+
+export async function GET() {
+  try {
+    return NextResponse.json({ ok: true, leagues: await listLeagues() });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  if (!process.env.ADMIN_SECRET) {
+    return NextResponse.json({ ok: false, error: "ADMIN_SECRET is not configured" }, { status: 500 });
+  }
+  if (!hasBearerSecret(req, process.env.ADMIN_SECRET)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const leagueId = searchParams.get("leagueId");
+    if (!leagueId) {
+      return NextResponse.json({ ok: false, error: "Missing leagueId" }, { status: 400 });
+    }
+
+    // Server clock: the setup wizard polls the sync runs started from here on
+    const registeredAt = new Date().toISOString();
+    const league = await registerLeague(leagueId, {
+      name: searchParams.get("name") ?? undefined,
+      slug: searchParams.get("slug") ?? undefined,
+    });
+
+    return NextResponse.json({ ok: true, league, registeredAt });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
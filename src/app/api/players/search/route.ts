@@ -7,6 +7,27 @@ export async function GET(req: Request) {
     const url = new URL(req.url);
     const q = (url.searchParams.get("q") ?? "").trim();
 
+    // ?ids=1,2: look players up by id (names for filters restored from a URL)
+    const ids = (url.searchParams.get("ids") ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .slice(0, 50);
+
+    if (ids.length > 0) {
+      const rows = await db.sleeperPlayer.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, fullName: true, position: true, team: true, status: true },
+      });
+      return NextResponse.json({ ok: true, q, results: rows });
+    }
+
+    // ?position=RB or ?position=WR,TE (matches primary or any fantasy position)
+    const positions = (url.searchParams.get("position") ?? "")
+      .split(",")
+      .map((s) => s.trim().toUpperCase())
+      .filter(Boolean);
+
     if (q.length < 3) {
       return NextResponse.json({ ok: true, q, results: [] });
     }
@@ -17,12 +38,34 @@ export async function GET(req: Request) {
           { fullName: { contains: q, mode: "insensitive" } },
           { team: { contains: q, mode: "insensitive" } },
         ],
+        ...(positions.length
+          ? {
+              AND: [
+                {
+                  OR: [
+                    { position: { in: positions } },
+                    { fantasyPositions: { hasSome: positions } },
+                  ],
+                },
+              ],
+            }
+          : {}),
       },
+      // Most relevant (Sleeper search_rank) first so the take doesn't cut stars
+      orderBy: [{ searchRank: { sort: "asc", nulls: "last" } }],
       take: 25,
-      select: { id: true, fullName: true, position: true, team: true, status: true },
+      select: {
+        id: true,
+        fullName: true,
+        position: true,
+        team: true,
+        status: true,
+        injuryStatus: true,
+        searchRank: true,
+      },
     });
 
-    // rank: startsWith > contains
+    // rank: startsWith > contains, then search_rank
     const ql = q.toLowerCase();
     const scored = rows
       .map((r) => {
@@ -30,10 +73,15 @@ export async function GET(req: Request) {
         const score = name.startsWith(ql) ? 0 : name.includes(ql) ? 1 : 2;
         return { r, score };
       })
-      .sort((a, b) => a.score - b.score);
+      .sort(
+        (a, b) =>
+          a.score - b.score ||
+          (a.r.searchRank ?? Number.MAX_SAFE_INTEGER) - (b.r.searchRank ?? Number.MAX_SAFE_INTEGER)
+      );
 
     return NextResponse.json({ ok: true, q, results: scored.map((s) => s.r).slice(0, 10) });
-  } catch (e: any) {
-    return NextResponse.json({ ok: false, error: e?.message ?? String(e) }, { status: 500 });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
   }
 }
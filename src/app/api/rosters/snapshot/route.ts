@@ -0,0 +1,92 @@
+// src/app/api/rosters/snapshot/route.ts
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getRosterNameMap } from "@/lib/names";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Who was on each roster in a given week.
+ *
+ * GET /api/rosters/snapshot?leagueId=...&season=2022&week=9[&rosterId=3]
+ *
+ * leagueId is that season's Sleeper league id (several leagues can share a season).
+ * When the exact week has no snapshot, the latest earlier one is returned (see `week`
+ * in the response).
+ */
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const leagueId = url.searchParams.get("leagueId");
+    const season = Number(url.searchParams.get("season"));
+    const week = Number(url.searchParams.get("week") ?? 18);
+    const rosterIdParam = url.searchParams.get("rosterId");
+    const rosterId = rosterIdParam ? Number(rosterIdParam) : undefined;
+
+    if (!Number.isInteger(season) || !Number.isInteger(week)) {
+      return NextResponse.json(
+        { ok: false, error: "season and week must be integers" },
+        { status: 400 }
+      );
+    }
+
+    if (!leagueId) {
+      return NextResponse.json({ ok: false, error: "Missing leagueId" }, { status: 400 });
+    }
+
+    const rosterFilter = rosterId !== undefined ? { rosterId } : {};
+    const latest = await db.rosterSnapshot.findFirst({
+      where: { leagueId, season, week: { lte: week }, ...rosterFilter },
+      orderBy: { week: "desc" },
+      select: { week: true },
+    });
+
+    if (!latest) {
+      return NextResponse.json({ ok: true, leagueId, season, week: null, rosters: [] });
+    }
+
+    const snapshots = await db.rosterSnapshot.findMany({
+      where: { leagueId, season, week: latest.week, ...rosterFilter },
+      orderBy: { rosterId: "asc" },
+    });
+
+    const playerIds = Array.from(
+      new Set(snapshots.flatMap((s) => [...s.players, ...s.reserve, ...s.taxi]))
+    );
+    const players = await db.sleeperPlayer.findMany({
+      where: { id: { in: playerIds } },
+      select: { id: true, fullName: true, position: true, team: true },
+    });
+    const playerMap = new Map(players.map((p) => [p.id, p]));
+    const rosterNames = await getRosterNameMap(leagueId, season);
+
+    const label = (id: string) => {
+      const p = playerMap.get(id);
+      return { id, name: p?.fullName ?? id, position: p?.position ?? null, team: p?.team ?? null };
+    };
+
+    const rosters = snapshots.map((s) => {
+      const starters = new Set(s.starters);
+      return {
+        rosterId: s.rosterId,
+        manager: rosterNames.get(s.rosterId) ?? `Roster ${s.rosterId}`,
+        source: s.source,
+        record: s.wins === null ? null : { wins: s.wins, losses: s.losses ?? 0, ties: s.ties ?? 0 },
+        fpts: s.fpts,
+        fptsAgainst: s.fptsAgainst,
+        waiverBudgetUsed: s.waiverBudgetUsed,
+        starters: s.starters.filter((id) => id !== "0").map(label),
+        bench: s.players
+          .filter((id) => !starters.has(id) && !s.reserve.includes(id) && !s.taxi.includes(id))
+          .map(label),
+        reserve: s.reserve.map(label),
+        taxi: s.taxi.map(label),
+      };
+    });
+
+    return NextResponse.json({ ok: true, leagueId, season, week: latest.week, rosters });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { findUserLeagues, previewLeagueChain } from "@/lib/setup";
+
+export const dynamic = "force-dynamic";
+
+/*
+  Setup wizard lookups (read-only, straight from Sleeper)
+
+  GET /api/setup/preview?leagueId=123     -> previous_league_id chain with teams + managers
+  GET /api/setup/preview?username=jake    -> that user's leagues this season
+*/
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const leagueId = url.searchParams.get("leagueId")?.trim();
+    const username = url.searchParams.get("username")?.trim();
+
+    if (leagueId) {
+      const maxDepth = Number(url.searchParams.get("maxDepth") ?? 15);
+      const chain = await previewLeagueChain(leagueId, maxDepth);
+      if (!chain) {
+        return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+      }
+      return NextResponse.json({ ok: true, leagueId, chain });
+    }
+
+    if (username) {
+      return NextResponse.json({ ok: true, ...(await findUserLeagues(username)) });
+    }
+
+    return NextResponse.json({ ok: false, error: "Pass leagueId or username" }, { status: 400 });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
@@ -1,74 +1,41 @@
 import { NextResponse } from "next/server";
-import { getLeague } from "@/lib/sleeper";
+import { seedLeagueRegistry } from "@/lib/leagues";
+import { syncLeagueHistory } from "@/lib/sync";
+import { triggerFrom } from "@/lib/syncRuns";
 
 /**
  * Walks the Sleeper previous_league_id chain starting from:
  *   - ?leagueId=... (optional)
  *   - otherwise SLEEPER_LEAGUE_ID
  *
- * Then calls /api/sync?leagueId=... for each id (newest -> oldest).
+ * Then syncs every season in-process (see syncLeagueHistory in lib/sync), a few at a time.
+ * Failing seasons are reported without stopping the others; rerunning resumes by
+ * retrying only the seasons that failed or aren't finished yet.
  *
  * POST /api/sync-history
- * POST /api/sync-history?leagueId=123&maxDepth=15
+ * POST /api/sync-history?leagueId=123&maxDepth=15&concurrency=3
+ * POST /api/sync-history?full=1   (ignore checkpoints/frozen seasons, rebuild everything)
  */
 export async function POST(req: Request) {
   try {
     const url = new URL(req.url);
     const startLeagueId = url.searchParams.get("leagueId") ?? process.env.SLEEPER_LEAGUE_ID!;
     const maxDepth = Number(url.searchParams.get("maxDepth") ?? 15);
+    const concurrency = Math.min(6, Math.max(1, Number(url.searchParams.get("concurrency") ?? 3) || 3));
 
     if (!startLeagueId) {
       return NextResponse.json({ ok: false, error: "Missing start leagueId" }, { status: 400 });
     }
 
-    // Build the chain newest -> oldest
-    const chain: string[] = [];
-    const seen = new Set<string>();
-
-    let current: string | null = startLeagueId;
-
-    for (let i = 0; i < maxDepth && current; i++) {
-      if (seen.has(current)) break;
-      seen.add(current);
-      chain.push(current);
-
-      const meta = await getLeague(current);
-      current = meta.previous_league_id ?? null;
-    }
-
-    const origin = url.origin;
-
-    const results: Array<{ leagueId: string; ok: boolean; status: number; body: any }> = [];
-
-    for (const leagueId of chain) {
-      const res = await fetch(`${origin}/api/sync?leagueId=${encodeURIComponent(leagueId)}`, {
-        method: "POST",
-      });
-
-      let body: any;
-      try {
-        body = await res.json();
-      } catch {
-        body = await res.text();
-      }
-
-      results.push({ leagueId, ok: res.ok, status: res.status, body });
-
-      if (!res.ok || (body && body.ok === false)) {
-        return NextResponse.json(
-          { ok: false, startLeagueId, chain, results },
-          { status: 500 }
-        );
-      }
-    }
-
-    return NextResponse.json({
-      ok: true,
-      startLeagueId,
-      chain,
-      syncedCount: results.length,
-      results,
+    await seedLeagueRegistry();
+    const result = await syncLeagueHistory(startLeagueId, {
+      maxDepth,
+      concurrency,
+      full: url.searchParams.get("full") === "1",
+      trigger: triggerFrom(req),
     });
+
+    return NextResponse.json(result, { status: result.ok ? 200 : 500 });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 500 });
   }
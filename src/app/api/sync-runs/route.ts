@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+/*
+  Sync runs started since a given time, oldest first. Polled by /setup to show progress.
+
+  GET /api/sync-runs?since=2026-10-19T20:00:00.000Z
+*/
+
+export async function GET(req: Request) {
+  try {
+    const since = new Date(new URL(req.url).searchParams.get("since") ?? "");
+    if (Number.isNaN(since.getTime())) {
+      return NextResponse.json({ ok: false, error: "Invalid since" }, { status: 400 });
+    }
+
+    const runs = await db.syncRun.findMany({
+      where: { startedAt: { gte: since } },
+      orderBy: { startedAt: "asc" },
+      select: {
+        id: true,
+        kind: true,
+        status: true,
+        leagueIds: true,
+        startedAt: true,
+        finishedAt: true,
+        counts: true,
+        error: true,
+      },
+      take: 100,
+    });
+
+    return NextResponse.json({ ok: true, runs });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
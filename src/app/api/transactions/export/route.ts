@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import {
+  afterCursor,
+  chainLabelContext,
+  searchTransactionIds,
+  viewOrderBy,
+  viewWhere,
+  type ViewCursor,
+} from "@/lib/transactionReadModel";
+import {
+  createTxLabeler,
+  parseTransactionFilters,
+  txSelect,
+  type TxLabeler,
+  type TxRow,
+} from "@/lib/transactionView";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/*
+  Transaction history export
+
+  Same filters and order as /api/transactions (viewWhere over TransactionView), no
+  paging: every matching transaction, read and written in batches so a multi-season
+  export streams instead of being built in memory. Views pick the transactions; the
+  rows themselves are read from Transaction for the per-asset columns.
+
+  GET /api/transactions/export?leagueId=123&format=csv    one row per TransactionAsset
+  GET /api/transactions/export?leagueId=123&format=json   transactions with nested assets
+*/
+
+const BATCH = 500;
+
+const CSV_COLUMNS = [
+  "transaction_id",
+  "league_id",
+  "season",
+  "week",
+  "date",
+  "type",
+  "status",
+  "asset_kind",
+  "asset",
+  "from_roster_id",
+  "from_team",
+  "to_roster_id",
+  "to_team",
+  "player_id",
+  "pick_season",
+  "pick_round",
+  "pick_original_team",
+  "faab_amount",
+];
+
+function csvCell(v: string | number | null | undefined) {
+  if (v === null || v === undefined) return "";
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function exportedAssets(t: TxRow, labels: TxLabeler) {
+  const team = (rosterId: number | null) =>
+    rosterId === null ? null : labels.rosterLabel(t.leagueId, t.season, rosterId);
+
+  return t.assets.map((a) => {
+    const originalRosterId = a.kind === "pick" ? labels.pickOriginalRoster(t, a) : null;
+    return {
+      kind: a.kind,
+      label: labels.assetLabel(t, a),
+      fromRosterId: a.fromRosterId,
+      fromTeam: team(a.fromRosterId),
+      toRosterId: a.toRosterId,
+      toTeam: team(a.toRosterId),
+      playerId: a.playerId,
+      pickSeason: a.pickSeason,
+      pickRound: a.pickRound,
+      pickOriginalRosterId: originalRosterId,
+      pickOriginalTeam:
+        originalRosterId === null || a.pickSeason === null
+          ? null
+          : labels.rosterLabel(t.leagueId, a.pickSeason, originalRosterId),
+      faabAmount: a.faabAmount,
+    };
+  });
+}
+
+function csvRows(t: TxRow, labels: TxLabeler) {
+  return exportedAssets(t, labels).map((a) =>
+    [
+      t.id,
+      t.leagueId,
+      t.season,
+      t.week,
+      t.createdAt.toISOString(),
+      t.type,
+      t.status,
+      a.kind,
+      a.label,
+      a.fromRosterId,
+      a.fromTeam,
+      a.toRosterId,
+      a.toTeam,
+      a.playerId,
+      a.pickSeason,
+      a.pickRound,
+      a.pickOriginalTeam,
+      a.faabAmount,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+}
+
+function jsonItem(t: TxRow, labels: TxLabeler) {
+  return {
+    id: t.id,
+    leagueId: t.leagueId,
+    season: t.season,
+    week: t.week,
+    type: t.type,
+    status: t.status,
+    createdAt: t.createdAt.toISOString(),
+    assets: exportedAssets(t, labels),
+  };
+}
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+
+    const rootLeagueId = url.searchParams.get("leagueId") || process.env.SLEEPER_LEAGUE_ID!;
+    const format = url.searchParams.get("format") === "json" ? "json" : "csv";
+    const filters = parseTransactionFilters(url.searchParams);
+
+    // Stored chain only: no Sleeper calls and no writes from this GET
+    const ctx = await chainLabelContext(rootLeagueId);
+    const where = viewWhere(ctx.leagueIds, filters);
+
+    const matchedIds = filters.q ? await searchTransactionIds(ctx.leagueIds, filters.q) : null;
+    if (matchedIds) where.id = { in: matchedIds };
+
+    const encoder = new TextEncoder();
+    let cursor: ViewCursor | null = null;
+    let first = true;
+
+    // One page per pull(): the next page is only read once the client has taken the last
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (format === "csv") {
+          controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(",")}\n`));
+        } else {
+          const head = JSON.stringify({ rootLeagueId, filters });
+          controller.enqueue(encoder.encode(`${head.slice(0, -1)},"transactions":[`));
+        }
+      },
+
+      async pull(controller) {
+        const write = (s: string) => controller.enqueue(encoder.encode(s));
+        const finish = () => {
+          if (format === "json") write("\n]}\n");
+          controller.close();
+        };
+
+        try {
+          const views: ViewCursor[] = await db.transactionView.findMany({
+            where: cursor ? { AND: [where, afterCursor(cursor)] } : where,
+            orderBy: viewOrderBy,
+            take: BATCH,
+            select: { id: true, season: true, createdAt: true },
+          });
+          if (views.length === 0) return finish();
+
+          const byId = new Map(
+            (
+              await db.transaction.findMany({
+                where: { id: { in: views.map((v) => v.id) } },
+                select: txSelect,
+              })
+            ).map((t) => [t.id, t])
+          );
+          const rows = views.map((v) => byId.get(v.id)).filter((t): t is TxRow => !!t);
+
+          const labels = await createTxLabeler(rows, ctx);
+
+          if (format === "csv") {
+            const lines = rows.flatMap((t) => csvRows(t, labels));
+            if (lines.length) write(`${lines.join("\n")}\n`);
+          } else {
+            for (const t of rows) {
+              write(`${first ? "" : ","}\n${JSON.stringify(jsonItem(t, labels))}`);
+              first = false;
+            }
+          }
+
+          if (views.length < BATCH) return finish();
+          cursor = views[views.length - 1];
+        } catch (e) {
+          // Headers are gone by now; a truncated file is the only signal left
+          controller.error(e);
+        }
+      },
+    });
+
+    const filename = `transactions-${rootLeagueId.replace(/[^\w-]/g, "")}.${format}`;
+    return new Response(stream, {
+      headers: {
+        "Content-Type":
+          format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error }, { status: 500 });
+  }
+}
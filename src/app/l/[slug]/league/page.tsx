@@ -0,0 +1,185 @@
+import { db } from "@/lib/db";
+import { storedLeagueChain } from "@/lib/leagueChain";
+import { requireLeague } from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+type SettingsRow = { label: string; values: string[] };
+
+const WAIVER_TYPES: Record<number, string> = {
+  0: "Rolling",
+  1: "Reverse standings",
+  2: "FAAB",
+};
+
+function numberSetting(settingsJson: unknown, key: string) {
+  if (!settingsJson || typeof settingsJson !== "object") return null;
+  const v = (settingsJson as Record<string, unknown>)[key];
+  return typeof v === "number" ? v : null;
+}
+
+/**
+ * ["QB","RB","RB","FLEX","BN","BN"] -> "QB, 2 RB, FLEX · 2 BN"
+ */
+function summarizePositions(positions: string[]) {
+  if (positions.length === 0) return "—";
+
+  const counts = new Map<string, number>();
+  for (const p of positions) counts.set(p, (counts.get(p) ?? 0) + 1);
+
+  const fmt = (p: string) => (counts.get(p)! > 1 ? `${counts.get(p)} ${p}` : p);
+  const starters = Array.from(counts.keys()).filter((p) => p !== "BN" && p !== "IR");
+  const reserve = ["BN", "IR"].filter((p) => counts.has(p));
+
+  return [starters.map(fmt).join(", "), reserve.map(fmt).join(", ")].filter(Boolean).join(" · ");
+}
+
+function scoringOf(v: unknown) {
+  return v && typeof v === "object" ? (v as Record<string, number>) : {};
+}
+
+type Props = { params: Promise<{ slug: string }> };
+
+export default async function LeagueSettingsPage({ params }: Props) {
+  const league = await requireLeague((await params).slug);
+  const leagueIds = await storedLeagueChain(league.rootLeagueId);
+  const seasons = await db.leagueSeason.findMany({
+    where: { leagueId: { in: leagueIds } },
+    orderBy: { season: "asc" },
+  });
+
+  if (seasons.length === 0) {
+    return (
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">League Settings</h1>
+        <p className="mt-2 text-sm text-zinc-600">
+          No data yet.{" "}
+          <a href="/setup" className="font-medium text-zinc-900 hover:underline">
+            Run the setup
+          </a>{" "}
+          to pull this league&apos;s history.
+        </p>
+      </div>
+    );
+  }
+
+  const tradeDeadline = (week: number | null) =>
+    week === null ? "—" : week === 0 || week >= 99 ? "None" : `Week ${week}`;
+
+  const rows: SettingsRow[] = [
+    { label: "Name", values: seasons.map((s) => s.name ?? "—") },
+    {
+      label: "Teams",
+      values: seasons.map((s) => String(numberSetting(s.settingsJson, "num_teams") ?? "—")),
+    },
+    { label: "Roster", values: seasons.map((s) => summarizePositions(s.rosterPositions)) },
+    {
+      label: "Taxi / IR slots",
+      values: seasons.map((s) => {
+        const taxi = numberSetting(s.settingsJson, "taxi_slots") ?? 0;
+        const reserve = numberSetting(s.settingsJson, "reserve_slots") ?? 0;
+        return `${taxi} / ${reserve}`;
+      }),
+    },
+    {
+      label: "Waivers",
+      values: seasons.map((s) =>
+        s.waiverType === null ? "—" : WAIVER_TYPES[s.waiverType] ?? `Type ${s.waiverType}`
+      ),
+    },
+    {
+      label: "FAAB budget",
+      values: seasons.map((s) =>
+        s.waiverType === 2 && s.waiverBudget !== null ? `$${s.waiverBudget}` : "—"
+      ),
+    },
+    { label: "Playoff teams", values: seasons.map((s) => String(s.playoffTeams ?? "—")) },
+    { label: "Trade deadline", values: seasons.map((s) => tradeDeadline(s.tradeDeadline)) },
+  ];
+
+  // Scoring: only the stats whose value changed from the previous season
+  const scoringChanges = seasons.slice(1).map((s, i) => {
+    const prev = scoringOf(seasons[i].scoringSettings);
+    const cur = scoringOf(s.scoringSettings);
+    const keys = Array.from(new Set([...Object.keys(prev), ...Object.keys(cur)])).sort();
+
+    return {
+      season: s.season,
+      previous: seasons[i].season,
+      changes: keys
+        .filter((k) => prev[k] !== cur[k])
+        .map((k) => ({ key: k, from: prev[k], to: cur[k] })),
+    };
+  });
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">League Settings</h1>
+        <p className="mt-1 text-sm text-zinc-600">
+          Season over season; highlighted values changed that year
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-xs uppercase tracking-wide text-zinc-500">
+              <tr>
+                <th className="px-4 py-3 text-left">Setting</th>
+                {seasons.map((s) => (
+                  <th key={s.leagueId} className="px-4 py-3 text-left">
+                    {s.season}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200">
+              {rows.map((r) => (
+                <tr key={r.label} className="align-top hover:bg-zinc-50">
+                  <td className="px-4 py-3 font-medium whitespace-nowrap">{r.label}</td>
+                  {r.values.map((v, i) => (
+                    <td
+                      key={i}
+                      className={`px-4 py-3 ${i > 0 && v !== r.values[i - 1] ? "bg-amber-50 font-semibold" : ""}`}
+                    >
+                      {v}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold tracking-tight">Scoring changes</h2>
+        <div className="mt-3 grid gap-4">
+          {scoringChanges.map((c) => (
+            <div key={c.season}>
+              <div className="text-sm font-medium">
+                {c.previous} → {c.season}
+              </div>
+              {c.changes.length === 0 ? (
+                <div className="text-sm text-zinc-500">No scoring changes</div>
+              ) : (
+                <ul className="mt-1 text-sm text-zinc-700">
+                  {c.changes.map((ch) => (
+                    <li key={ch.key}>
+                      <span className="font-mono text-xs">{ch.key}</span>: {ch.from ?? "—"} →{" "}
+                      <span className="font-semibold">{ch.to ?? "—"}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          {scoringChanges.length === 0 && (
+            <div className="text-sm text-zinc-500">Only one season synced so far.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { db } from "@/lib/db";
+import { requireLeague } from "@/lib/leagues";
+import { getRosterNameMap } from "@/lib/names";
+
+export const dynamic = "force-dynamic";
+
+const FIELD_LABELS: Record<string, string> = {
+  team: "Team",
+  status: "Status",
+  position: "Position",
+  injuryStatus: "Injury",
+};
+
+type Props = { params: Promise<{ slug: string }> };
+
+export default async function PlayerNewsPage({ params }: Props) {
+  const league = await requireLeague((await params).slug);
+  const leagueId = league.rootLeagueId;
+  const seasonRow = await db.leagueSeason.findFirst({
+    where: { leagueId },
+    orderBy: { season: "desc" },
+  });
+
+  // Players on a league roster right now = the latest roster snapshot
+  const latest = seasonRow
+    ? await db.rosterSnapshot.findFirst({
+        where: { leagueId, season: seasonRow.season },
+        orderBy: { week: "desc" },
+        select: { week: true },
+      })
+    : null;
+
+  if (!seasonRow || !latest) {
+    return (
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">Player News</h1>
+        <p className="mt-2 text-sm text-zinc-600">
+          No rosters yet.{" "}
+          <a href="/setup" className="font-medium text-zinc-900 hover:underline">
+            Run the setup
+          </a>{" "}
+          to pull this league&apos;s history.
+        </p>
+      </div>
+    );
+  }
+
+  const snapshots = await db.rosterSnapshot.findMany({
+    where: { leagueId, season: seasonRow.season, week: latest.week },
+    select: { rosterId: true, players: true, reserve: true, taxi: true },
+  });
+
+  const rosterOf = new Map<string, number>();
+  for (const s of snapshots) {
+    for (const id of [...s.players, ...s.reserve, ...s.taxi]) rosterOf.set(id, s.rosterId);
+  }
+
+  const [changes, rosterNames] = await Promise.all([
+    db.playerChange.findMany({
+      where: { playerId: { in: Array.from(rosterOf.keys()) } },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+      include: { player: { select: { fullName: true, position: true, team: true } } },
+    }),
+    getRosterNameMap(leagueId, seasonRow.season),
+  ]);
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">Player News</h1>
+        <p className="mt-1 text-sm text-zinc-600">
+          Team, status, position and injury changes for players on league rosters
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-xs uppercase tracking-wide text-zinc-500">
+              <tr>
+                <th className="px-4 py-3 text-left">Date</th>
+                <th className="px-4 py-3 text-left">Player</th>
+                <th className="px-4 py-3 text-left">Rostered by</th>
+                <th className="px-4 py-3 text-left">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200">
+              {changes.map((c) => {
+                const rosterId = rosterOf.get(c.playerId);
+                return (
+                  <tr key={c.id} className="hover:bg-zinc-50">
+                    <td className="px-4 py-3 whitespace-nowrap">{c.createdAt.toLocaleDateString()}</td>
+                    <td className="px-4 py-3 font-medium">
+                      <a href={`/l/${league.slug}/players/${c.playerId}`} className="hover:underline">
+                        {c.player.fullName ?? c.playerId}
+                      </a>{" "}
+                      <span className="text-xs text-zinc-500">
+                        {[c.player.position, c.player.team].filter(Boolean).join(" • ")}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {rosterId === undefined ? "—" : rosterNames.get(rosterId) ?? `Roster ${rosterId}`}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="text-zinc-500">{FIELD_LABELS[c.field] ?? c.field}:</span>{" "}
+                      {c.fromValue ?? "—"} → <span className="font-semibold">{c.toValue ?? "—"}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+              {changes.length === 0 && (
+                <tr>
+                  <td className="px-4 py-8 text-center text-zinc-500" colSpan={4}>
+                    No changes recorded yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { db } from "@/lib/db";
+import { storedLeagueChain } from "@/lib/leagueChain";
+import { requireLeague } from "@/lib/leagues";
+import { getRosterNameMap } from "@/lib/names";
+
+export const dynamic = "force-dynamic";
+
+// Sleeper lets dynasty leagues trade picks up to three drafts out
+const FUTURE_SEASONS = 3;
+
+type Transfer = { from: number | null; to: number | null; date: Date };
+
+type Props = { params: Promise<{ slug: string }> };
+
+export default async function PicksPage({ params }: Props) {
+  const league = await requireLeague((await params).slug);
+  const leagueId = league.rootLeagueId;
+  const seasonRow = await db.leagueSeason.findFirst({
+    where: { leagueId },
+    orderBy: { season: "desc" },
+  });
+
+  if (!seasonRow) {
+    return (
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">Draft Picks</h1>
+        <p className="mt-2 text-sm text-zinc-600">
+          No data yet.{" "}
+          <a href="/setup" className="font-medium text-zinc-900 hover:underline">
+            Run the setup
+          </a>{" "}
+          to pull this league&apos;s history.
+        </p>
+      </div>
+    );
+  }
+
+  const season = seasonRow.season;
+  const leagueIds = await storedLeagueChain(leagueId);
+  const rosterNames = await getRosterNameMap(leagueId, season);
+  const nameOf = (id: number | null) => (id === null ? "—" : rosterNames.get(id) ?? `Roster ${id}`);
+  const rosterIds = Array.from(rosterNames.keys()).sort((a, b) => a - b);
+
+  const [traded, drafts] = await Promise.all([
+    db.tradedPick.findMany({ where: { leagueId } }),
+    db.draft.findMany({
+      where: { leagueId: { in: leagueIds } },
+      select: { leagueId: true, season: true, status: true, rounds: true },
+      orderBy: { season: "desc" },
+    }),
+  ]);
+
+  // This season's draft already happened -> its picks are players now
+  const draftDone = drafts.some(
+    (d) => d.leagueId === leagueId && d.season === season && d.status === "complete"
+  );
+  const firstSeason = draftDone ? season + 1 : season;
+
+  const seasons = Array.from(
+    new Set([
+      ...Array.from({ length: FUTURE_SEASONS }, (_, i) => firstSeason + i),
+      ...traded.map((p) => p.season).filter((s) => s >= firstSeason),
+    ])
+  ).sort((a, b) => a - b);
+
+  const rounds = Math.max(drafts[0]?.rounds ?? 4, ...traded.map((p) => p.round));
+
+  const ownerOf = new Map(
+    traded.map((p) => [`${p.season}:${p.round}:${p.originalRosterId}`, p.ownerRosterId])
+  );
+
+  // How each pick moved: completed trades across the whole league history
+  const moves = await db.transactionAsset.findMany({
+    where: {
+      kind: "pick",
+      pickSeason: { in: seasons },
+      pickOriginalRosterId: { not: null },
+      transaction: { leagueId: { in: leagueIds }, status: "complete" },
+    },
+    select: {
+      pickSeason: true,
+      pickRound: true,
+      pickOriginalRosterId: true,
+      fromRosterId: true,
+      toRosterId: true,
+      transaction: { select: { createdAt: true } },
+    },
+    orderBy: { transaction: { createdAt: "asc" } },
+  });
+
+  const transfers = new Map<string, Transfer[]>();
+  for (const m of moves) {
+    const k = `${m.pickSeason}:${m.pickRound}:${m.pickOriginalRosterId}`;
+    const list = transfers.get(k) ?? [];
+    list.push({ from: m.fromRosterId, to: m.toRosterId, date: m.transaction.createdAt });
+    transfers.set(k, list);
+  }
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">Draft Picks</h1>
+        <p className="mt-1 text-sm text-zinc-600">
+          Who owns every future pick, and the trades that got it there
+        </p>
+      </div>
+
+      {seasons.map((s) => (
+        <div key={s} className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+          <div className="border-b border-zinc-200 px-4 py-3 font-semibold">{s} draft</div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-zinc-50 text-xs uppercase tracking-wide text-zinc-500">
+                <tr>
+                  <th className="px-4 py-3 text-left">Original team</th>
+                  {Array.from({ length: rounds }, (_, i) => (
+                    <th key={i} className="px-4 py-3 text-left">
+                      Round {i + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200">
+                {rosterIds.map((rid) => (
+                  <tr key={rid} className="align-top hover:bg-zinc-50">
+                    <td className="px-4 py-3 font-medium">{nameOf(rid)}</td>
+                    {Array.from({ length: rounds }, (_, i) => {
+                      const k = `${s}:${i + 1}:${rid}`;
+                      const owner = ownerOf.get(k) ?? rid;
+                      const chain = transfers.get(k) ?? [];
+
+                      return (
+                        <td key={k} className="px-4 py-3">
+                          <div className={owner === rid ? "text-zinc-500" : "font-semibold"}>
+                            {nameOf(owner)}
+                          </div>
+                          {chain.length > 0 && (
+                            <div className="mt-1 text-xs text-zinc-500">
+                              {chain.map((t, idx) => (
+                                <div key={idx}>
+                                  {nameOf(t.from)} → {nameOf(t.to)}{" "}
+                                  <span className="text-zinc-400">
+                                    ({t.date.toLocaleDateString()})
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
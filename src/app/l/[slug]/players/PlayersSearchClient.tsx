@@ -8,14 +8,19 @@ type Result = {
   position: string | null;
   team: string | null;
   status: string | null;
+  injuryStatus: string | null;
 };
 
+const POSITIONS = ["QB", "RB", "WR", "TE", "K", "DEF"];
+
 function clsx(...parts: Array<string | false | null | undefined>) {
   return parts.filter(Boolean).join(" ");
 }
 
-export default function PlayersSearchClient() {
+// basePath: /l/<slug>/players (player pages live under their league)
+export default function PlayersSearchClient({ basePath }: { basePath: string }) {
   const [q, setQ] = useState("");
+  const [position, setPosition] = useState("");
   const [results, setResults] = useState<Result[]>([]);
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
@@ -63,7 +68,10 @@ export default function PlayersSearchClient() {
 
     const handle = setTimeout(async () => {
       try {
-        const res = await fetch(`/api/players/search?q=${encodeURIComponent(q.trim())}&limit=10`, {
+        const params = new URLSearchParams({ q: q.trim(), limit: "10" });
+        if (position) params.set("position", position);
+
+        const res = await fetch(`/api/players/search?${params.toString()}`, {
           signal: controller.signal,
         });
         const data = await res.json();
@@ -80,7 +88,7 @@ export default function PlayersSearchClient() {
       clearTimeout(handle);
       controller.abort();
     };
-  }, [q, canSearch]);
+  }, [q, position, canSearch]);
 
   const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (!open) return;
@@ -94,7 +102,7 @@ export default function PlayersSearchClient() {
     } else if (e.key === "Enter") {
       if (activeIndex >= 0 && results[activeIndex]) {
         const r = results[activeIndex];
-        window.location.href = `/players/${r.id}`;
+        window.location.href = `${basePath}/${r.id}`;
       }
     } else if (e.key === "Escape") {
       setOpen(false);
@@ -108,17 +116,31 @@ export default function PlayersSearchClient() {
         <label className="text-sm font-semibold text-zinc-900">Find a player</label>
 
         <div className="relative">
-          <input
-            value={q}
-            onChange={(e) => {
-              setQ(e.target.value);
-              setOpen(true);
-            }}
-            onFocus={() => setOpen(true)}
-            onKeyDown={onKeyDown}
-            placeholder="Start typing…"
-            className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm outline-none focus:border-zinc-900"
-          />
+          <div className="flex gap-2">
+            <input
+              value={q}
+              onChange={(e) => {
+                setQ(e.target.value);
+                setOpen(true);
+              }}
+              onFocus={() => setOpen(true)}
+              onKeyDown={onKeyDown}
+              placeholder="Start typing…"
+              className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm outline-none focus:border-zinc-900"
+            />
+            <select
+              value={position}
+              onChange={(e) => setPosition(e.target.value)}
+              className="rounded-2xl border border-zinc-200 bg-white px-3 py-3 text-sm outline-none focus:border-zinc-900"
+            >
+              <option value="">All positions</option>
+              {POSITIONS.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+          </div>
 
           <div className="mt-2 text-xs text-zinc-500">
             {loading ? "Searching…" : hint}
@@ -136,7 +158,7 @@ export default function PlayersSearchClient() {
                     return (
                       <li key={r.id}>
                         <a
-                          href={`/players/${r.id}`}
+                          href={`${basePath}/${r.id}`}
                           className={clsx(
                             "block px-4 py-3 text-sm",
                             idx === activeIndex ? "bg-zinc-100" : "hover:bg-zinc-50"
@@ -146,6 +168,9 @@ export default function PlayersSearchClient() {
                           <div className="font-semibold text-zinc-900">{label}</div>
                           <div className="text-xs text-zinc-600">
                             {meta || "—"} {r.status ? `• ${r.status}` : ""}
+                            {r.injuryStatus ? (
+                              <span className="ml-1 font-semibold text-red-700">{r.injuryStatus}</span>
+                            ) : null}
                           </div>
                         </a>
                       </li>
@@ -0,0 +1,275 @@
+import Link from "next/link";
+import { db } from "@/lib/db";
+import { storedLeagueChain } from "@/lib/leagueChain";
+import { requireLeague } from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+function uniq<T>(arr: T[]) {
+  return Array.from(new Set(arr));
+}
+
+function prettyType(type: string) {
+  return type
+    .split("_")
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+/**
+ * Sleeper sends height as inches ("74"); older records already read like 6'2"
+ */
+function formatHeight(height: string | null) {
+  if (!height) return null;
+  const inches = Number(height);
+  if (!Number.isInteger(inches)) return height;
+  return `${Math.floor(inches / 12)}'${inches % 12}"`;
+}
+
+type Props = { params: Promise<{ slug: string; id: string }> };
+
+export default async function PlayerPage({ params }: Props) {
+  const { slug, id } = await params;
+  const league = await requireLeague(slug);
+  const leagueIds = await storedLeagueChain(league.rootLeagueId);
+
+  const player = await db.sleeperPlayer.findUnique({ where: { id } });
+
+  if (!player) {
+    return (
+      <main className="mx-auto max-w-6xl p-6">
+        <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <h1 className="text-xl font-bold">Player not found</h1>
+          <p className="mt-2 text-sm text-zinc-600">{id}</p>
+        </div>
+      </main>
+    );
+  }
+
+  const experience =
+    player.yearsExp === null ? null : player.yearsExp === 0 ? "Rookie" : `${player.yearsExp} yrs`;
+  const depthOrder = player.depthChartOrder !== null ? ` #${player.depthChartOrder}` : "";
+
+  const bio: [string, string | null][] = [
+    ["Age", player.age !== null ? String(player.age) : null],
+    ["Born", player.birthDate],
+    ["Experience", experience],
+    ["College", player.college],
+    ["Height", formatHeight(player.height)],
+    ["Weight", player.weight ? `${player.weight} lbs` : null],
+    ["Depth chart", player.depthChartPosition ? `${player.depthChartPosition}${depthOrder}` : null],
+    ["Fantasy positions", player.fantasyPositions.length ? player.fantasyPositions.join(", ") : null],
+  ];
+
+  // Pull transaction assets that reference this player, include the parent transaction
+  const assets = await db.transactionAsset.findMany({
+    where: { playerId: id, transaction: { leagueId: { in: leagueIds } } },
+    include: { transaction: true },
+    orderBy: [{ transaction: { season: "desc" } }, { transaction: { week: "desc" } }, { transaction: { createdAt: "desc" } }],
+    take: 500,
+  });
+
+  const txs = assets.map((a) => a.transaction);
+
+  // Weekly fantasy points wherever the player was rostered in a matchup
+  const lines = await db.matchupPlayer.findMany({
+    where: { playerId: id, leagueId: { in: leagueIds } },
+    orderBy: [{ season: "desc" }, { week: "desc" }],
+    take: 500,
+  });
+
+  // Build roster -> owner label map for the league/season combos present
+  const leagueSeasonPairs = Array.from(
+    new Set([...txs, ...lines].map((t) => `${t.leagueId}::${t.season}`))
+  ).map((k) => {
+    const [leagueId, s] = k.split("::");
+    return { leagueId, season: Number(s) };
+  });
+
+  const rosterRows =
+    leagueSeasonPairs.length > 0
+      ? await db.roster.findMany({
+          where: {
+            OR: leagueSeasonPairs.map((p) => ({ leagueId: p.leagueId, season: p.season })),
+          },
+          select: { leagueId: true, season: true, rosterId: true, ownerId: true },
+        })
+      : [];
+
+  const ownerIds = uniq(rosterRows.map((r) => r.ownerId).filter((x): x is string => !!x));
+  const owners =
+    ownerIds.length > 0
+      ? await db.sleeperUser.findMany({
+          where: { sleeperUserId: { in: ownerIds } },
+          select: { sleeperUserId: true, displayName: true, username: true },
+        })
+      : [];
+
+  const ownerMap = new Map(owners.map((o) => [o.sleeperUserId, o.displayName ?? o.username ?? o.sleeperUserId]));
+
+  const rosterLabelMap = new Map<string, string>();
+  for (const r of rosterRows) {
+    const label = (r.ownerId && ownerMap.get(r.ownerId)) || `Roster ${r.rosterId}`;
+    rosterLabelMap.set(`${r.leagueId}::${r.season}::${r.rosterId}`, label);
+  }
+
+  const rosterLabel = (leagueId: string, season: number, rosterId: number | null | undefined) => {
+    if (rosterId === null || rosterId === undefined) return "—";
+    return rosterLabelMap.get(`${leagueId}::${season}::${rosterId}`) ?? `Roster ${rosterId}`;
+  };
+
+  // Render a simple "direction" per asset row
+  const rows = assets.map((a) => {
+    const t = a.transaction;
+    const from = rosterLabel(t.leagueId, t.season, a.fromRosterId);
+    const to = rosterLabel(t.leagueId, t.season, a.toRosterId);
+
+    let action = "—";
+    if (a.fromRosterId && !a.toRosterId) action = `Dropped by ${from}`;
+    else if (!a.fromRosterId && a.toRosterId) action = `Added by ${to}`;
+    else if (a.fromRosterId && a.toRosterId && a.fromRosterId !== a.toRosterId) action = `${from} → ${to}`;
+
+    return {
+      txId: t.id,
+      season: t.season,
+      week: t.week,
+      type: t.type,
+      date: t.createdAt,
+      action,
+    };
+  });
+
+  // Per-season totals (starter points are what counted)
+  const seasonTotals = new Map<number, { games: number; starts: number; points: number; starterPoints: number }>();
+  for (const l of lines) {
+    const t = seasonTotals.get(l.season) ?? { games: 0, starts: 0, points: 0, starterPoints: 0 };
+    t.games += 1;
+    t.points += l.points ?? 0;
+    if (l.starter) {
+      t.starts += 1;
+      t.starterPoints += l.points ?? 0;
+    }
+    seasonTotals.set(l.season, t);
+  }
+
+  return (
+    <main className="mx-auto max-w-6xl p-6 space-y-6">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <div className="text-sm text-zinc-500">
+          <Link href={`/l/${league.slug}/players`} className="hover:underline">
+            ← Back to search
+          </Link>
+        </div>
+
+        <h1 className="mt-2 text-2xl font-bold">
+          {player.fullName ?? player.id}
+        </h1>
+
+        <div className="mt-2 text-sm text-zinc-700">
+          {[player.position, player.team].filter(Boolean).join(" • ") || "—"}{" "}
+          {player.status ? <span className="text-zinc-500">• {player.status}</span> : null}
+          {player.injuryStatus ? (
+            <span className="ml-2 rounded-full bg-red-50 px-2 py-0.5 text-xs font-semibold text-red-700">
+              {player.injuryStatus}
+            </span>
+          ) : null}
+        </div>
+
+        <dl className="mt-4 grid grid-cols-2 gap-x-6 gap-y-2 text-sm sm:grid-cols-4">
+          {bio.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs text-zinc-500">{label}</dt>
+              <dd className="font-medium text-zinc-900">{value ?? "—"}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="rounded-3xl border border-zinc-200 bg-white shadow-sm overflow-hidden">
+        <div className="p-4 border-b border-zinc-200 text-sm text-zinc-600">
+          Fantasy points:{" "}
+          {Array.from(seasonTotals.entries()).map(([season, t]) => (
+            <span key={season} className="mr-4 whitespace-nowrap">
+              <span className="font-semibold text-zinc-900">{season}</span> {t.starterPoints.toFixed(2)} pts in{" "}
+              {t.starts} starts ({t.points.toFixed(2)} incl. bench, {t.games} weeks)
+            </span>
+          ))}
+          {seasonTotals.size === 0 ? "—" : null}
+        </div>
+
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-50 text-zinc-600">
+            <tr>
+              <th className="text-left p-3">Season</th>
+              <th className="text-left p-3">Week</th>
+              <th className="text-left p-3">Team</th>
+              <th className="text-left p-3">Role</th>
+              <th className="text-right p-3">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((l) => (
+              <tr key={l.id} className="border-t">
+                <td className="p-3 whitespace-nowrap">{l.season}</td>
+                <td className="p-3 whitespace-nowrap">{l.week}</td>
+                <td className="p-3">
+                  <a href={`/l/${league.slug}/teams/${l.rosterId}?season=${l.season}`} className="hover:underline">
+                    {rosterLabel(l.leagueId, l.season, l.rosterId)}
+                  </a>
+                </td>
+                <td className="p-3 whitespace-nowrap">{l.starter ? "Starter" : "Bench"}</td>
+                <td className={`p-3 text-right tabular-nums ${l.starter ? "font-semibold" : "text-zinc-500"}`}>
+                  {l.points === null ? "—" : l.points.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+            {lines.length === 0 && (
+              <tr>
+                <td className="p-6 text-zinc-600" colSpan={5}>
+                  No matchup scoring synced for this player yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="rounded-3xl border border-zinc-200 bg-white shadow-sm overflow-hidden">
+        <div className="p-4 border-b border-zinc-200 text-sm text-zinc-600">
+          Showing <span className="font-semibold text-zinc-900">{rows.length}</span> transaction appearances (max 500).
+        </div>
+
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-50 text-zinc-600">
+            <tr>
+              <th className="text-left p-3">Season</th>
+              <th className="text-left p-3">Week</th>
+              <th className="text-left p-3">Date</th>
+              <th className="text-left p-3">Type</th>
+              <th className="text-left p-3">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, idx) => (
+              <tr key={`${r.txId}-${idx}`} className="border-t align-top">
+                <td className="p-3 whitespace-nowrap">{r.season}</td>
+                <td className="p-3 whitespace-nowrap">{r.week}</td>
+                <td className="p-3 whitespace-nowrap">{new Date(r.date).toLocaleDateString()}</td>
+                <td className="p-3 whitespace-nowrap">{prettyType(r.type)}</td>
+                <td className="p-3">{r.action}</td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td className="p-6 text-zinc-600" colSpan={5}>
+                  No transactions found for this player yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,176 @@
+import { db } from "@/lib/db";
+import { storedLeagueChain } from "@/lib/leagueChain";
+import { requireLeague } from "@/lib/leagues";
+import { getRosterNameMap } from "@/lib/names";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ slug: string; rosterId: string }>;
+  searchParams: Promise<{ season?: string }>;
+};
+
+export default async function TeamPage({ params, searchParams }: Props) {
+  const { slug, rosterId: rosterParam } = await params;
+  const league = await requireLeague(slug);
+  const base = `/l/${league.slug}`;
+  const rosterId = Number(rosterParam);
+  const seasonParam = Number((await searchParams).season);
+
+  // ?season= picks that season's league in this league's chain; default to the latest season
+  const chain = await storedLeagueChain(league.rootLeagueId);
+  const seasonRow = await db.leagueSeason.findFirst({
+    where: {
+      leagueId: { in: chain },
+      ...(Number.isInteger(seasonParam) ? { season: seasonParam } : {}),
+    },
+    orderBy: { season: "desc" },
+  });
+
+  if (!seasonRow || !Number.isInteger(rosterId)) {
+    return (
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">Team not found</h1>
+        <p className="mt-2 text-sm text-zinc-600">No synced season/roster for this link.</p>
+      </div>
+    );
+  }
+
+  const { leagueId, season } = seasonRow;
+  const rosterNames = await getRosterNameMap(leagueId, season);
+  const nameOf = (id: number) => rosterNames.get(id) ?? `Roster ${id}`;
+
+  const matchups = await db.matchup.findMany({
+    where: { leagueId, season },
+    orderBy: [{ week: "asc" }],
+    include: { playerScores: true },
+  });
+
+  const own = matchups.filter((m) => m.rosterId === rosterId);
+  const opponentOf = (week: number, matchupId: number | null) =>
+    matchupId === null
+      ? undefined
+      : matchups.find((m) => m.week === week && m.matchupId === matchupId && m.rosterId !== rosterId);
+
+  const playerIds = Array.from(new Set(own.flatMap((m) => m.playerScores.map((p) => p.playerId))));
+  const players = await db.sleeperPlayer.findMany({
+    where: { id: { in: playerIds } },
+    select: { id: true, fullName: true, position: true },
+  });
+  const playerMap = new Map(players.map((p) => [p.id, p]));
+  const playerName = (id: string) => playerMap.get(id)?.fullName ?? id;
+
+  // Season leaders: points scored while in the starting lineup
+  const leaders = new Map<string, { starts: number; points: number }>();
+  for (const m of own) {
+    for (const p of m.playerScores) {
+      if (!p.starter) continue;
+      const l = leaders.get(p.playerId) ?? { starts: 0, points: 0 };
+      l.starts += 1;
+      l.points += p.points ?? 0;
+      leaders.set(p.playerId, l);
+    }
+  }
+  const leaderRows = Array.from(leaders.entries())
+    .sort((a, b) => b[1].points - a[1].points)
+    .slice(0, 15);
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">{nameOf(rosterId)}</h1>
+        <p className="mt-1 text-sm text-zinc-600">Season {season}</p>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-xs uppercase tracking-wide text-zinc-500">
+              <tr>
+                <th className="px-4 py-3 text-left">Top starters</th>
+                <th className="px-4 py-3 text-left">Pos</th>
+                <th className="px-4 py-3 text-right">Starts</th>
+                <th className="px-4 py-3 text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200">
+              {leaderRows.map(([playerId, l]) => (
+                <tr key={playerId} className="hover:bg-zinc-50">
+                  <td className="px-4 py-3 font-medium">
+                    <a href={`${base}/players/${playerId}`} className="hover:underline">
+                      {playerName(playerId)}
+                    </a>
+                  </td>
+                  <td className="px-4 py-3">{playerMap.get(playerId)?.position ?? "—"}</td>
+                  <td className="px-4 py-3 text-right">{l.starts}</td>
+                  <td className="px-4 py-3 text-right tabular-nums">{l.points.toFixed(2)}</td>
+                </tr>
+              ))}
+              {leaderRows.length === 0 && (
+                <tr>
+                  <td className="px-4 py-8 text-center text-zinc-500" colSpan={4}>
+                    No player scoring synced yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-xs uppercase tracking-wide text-zinc-500">
+              <tr>
+                <th className="px-4 py-3 text-left">Week</th>
+                <th className="px-4 py-3 text-left">Opponent</th>
+                <th className="px-4 py-3 text-right">Score</th>
+                <th className="px-4 py-3 text-left">Starters</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200">
+              {own.map((m) => {
+                const opp = opponentOf(m.week, m.matchupId);
+                const starters = m.playerScores
+                  .filter((p) => p.starter)
+                  .sort((a, b) => (a.starterSlot ?? 0) - (b.starterSlot ?? 0));
+
+                return (
+                  <tr key={m.id} className="align-top hover:bg-zinc-50">
+                    <td className="px-4 py-3">{m.week}</td>
+                    <td className="px-4 py-3">
+                      {opp ? (
+                        <a href={`${base}/teams/${opp.rosterId}?season=${season}`} className="hover:underline">
+                          {nameOf(opp.rosterId)}
+                        </a>
+                      ) : (
+                        <span className="text-zinc-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums whitespace-nowrap">
+                      {(m.points ?? 0).toFixed(2)}
+                      {opp ? <span className="text-zinc-400"> – {(opp.points ?? 0).toFixed(2)}</span> : null}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-zinc-600">
+                      {starters
+                        .map((p) => `${playerName(p.playerId)} ${(p.points ?? 0).toFixed(1)}`)
+                        .join(" • ") || "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+              {own.length === 0 && (
+                <tr>
+                  <td className="px-4 py-8 text-center text-zinc-500" colSpan={4}>
+                    No matchups yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
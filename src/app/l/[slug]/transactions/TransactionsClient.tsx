@@ -0,0 +1,1118 @@
+"use client";
+
+import * as React from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+type Facet = { value: string; label: string };
+
+type TxItem = {
+  id: string;
+  leagueId: string;
+  season: number;
+  type: string;
+  typeLabel: string;
+  status: string;
+  createdAt: string;
+
+  teams: string[];
+
+  received: { rosterId: number; team: string; items: string[] }[];
+  sent: { rosterId: number; team: string; items: string[] }[];
+
+  // Excerpt of a trade note that matched the search, matches wrapped in « »
+  noteMatch?: string | null;
+
+  added?: { rosterId: number; team: string; items: string[]; faab?: number }[];
+  dropped?: { rosterId: number; team: string; items: string[] }[];
+  moved?: { fromRosterId: number; from: string; toRosterId: number; to: string; items: string[] }[];
+};
+
+type ApiResp = {
+  ok: boolean;
+  rootLeagueId: string;
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  nextCursor: string | null;
+  terms: string[];
+  items: TxItem[];
+  facets: {
+    seasons: Facet[];
+    types: Facet[];
+    statuses: Facet[];
+    teams: Facet[];
+    teamsSeason: number;
+    pickRounds?: Facet[];
+  };
+  error?: string;
+};
+
+type PlayerSearchResp = {
+  ok: boolean;
+  q: string;
+  results: {
+    id: string;
+    fullName: string | null;
+    position: string | null;
+    team: string | null;
+    status: string | null;
+  }[];
+  error?: string;
+};
+
+function buildQuery(params: Record<string, string | number | null | undefined>) {
+  const sp = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    if (v === null || v === undefined || v === "") continue;
+    sp.set(k, String(v));
+  }
+  const s = sp.toString();
+  return s ? `?${s}` : "";
+}
+
+// Search terms of the current results, as one regex (null = nothing to highlight)
+const HighlightContext = React.createContext<RegExp | null>(null);
+
+function termsRegex(terms: string[]) {
+  if (terms.length === 0) return null;
+  const alts = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+  // Word-prefix matches, like the server's tsquery
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${alts})`, "giu");
+}
+
+function Hl({ text }: { text: string }) {
+  const re = React.useContext(HighlightContext);
+  if (!re) return <>{text}</>;
+
+  // split() with one capture group: odd indexes are the matches
+  return (
+    <>
+      {text.split(re).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded bg-amber-100 px-0.5 text-inherit">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function NoteExcerpt({ text }: { text: string }) {
+  const parts = text.split(/«|»/);
+  return (
+    <div className="mt-2 rounded-xl bg-zinc-50 px-3 py-2 text-xs text-zinc-600">
+      <span className="font-semibold text-zinc-700">Note:</span>{" "}
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded bg-amber-100 px-0.5 text-inherit">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </div>
+  );
+}
+
+function fmtDate(iso: string) {
+  try {
+    return new Date(iso).toLocaleDateString();
+  } catch {
+    return iso;
+  }
+}
+
+// Pick label parser: "2024 R1 (Owner pick Player Name)"
+function renderMaybePickLabel(label: string) {
+  const m = label.match(/^(\d{4}\sR\d+)\s\((.+?)\spick(?:\s(.+))?\)$/);
+  if (!m) {
+    return (
+      <span>
+        <Hl text={label} />
+      </span>
+    );
+  }
+
+  const core = m[1];
+  const owner = m[2];
+  const drafted = (m[3] ?? "").trim();
+
+  return (
+    <span>
+      <Hl text={core} />{" "}
+      <span>
+        (<Hl text={owner} /> pick
+        {drafted ? (
+          <>
+            {" "}
+            <span className="italic text-zinc-500">
+              <Hl text={drafted} />
+            </span>
+          </>
+        ) : null}
+        )
+      </span>
+    </span>
+  );
+}
+
+// Completed moves only, unless the user opts into failed/pending claims
+const DEFAULT_STATUSES = ["complete"];
+
+type Preset = { id: string; name: string; query: string };
+
+type PresetsResp = { ok: boolean; presets?: Preset[]; error?: string };
+
+// Everything the page URL (and a saved preset) holds
+type PageQuery = {
+  season: string[];
+  type: string[];
+  team: string[];
+  status: string[];
+  playerIds: string[];
+  playerMatch: "any" | "all";
+  q: string;
+  weekFrom: string;
+  weekTo: string;
+  from: string;
+  to: string;
+  assetKind: string[];
+  pickRound: string[];
+  minFaab: string;
+  page: number;
+};
+
+function readPageQuery(sp: URLSearchParams): PageQuery {
+  const list = (k: string) =>
+    (sp.get(k) ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+  // Same status defaults as the API: absent = completed only, "all" = any
+  const status = sp.get("status");
+
+  return {
+    season: list("season"),
+    type: list("type"),
+    team: list("team"),
+    status: status === null ? DEFAULT_STATUSES : status === "all" ? [] : list("status"),
+    playerIds: list("playerId"),
+    playerMatch: sp.get("playerMatch") === "all" ? "all" : "any",
+    q: sp.get("q") ?? "",
+    weekFrom: sp.get("weekFrom") ?? "",
+    weekTo: sp.get("weekTo") ?? "",
+    from: sp.get("from") ?? "",
+    to: sp.get("to") ?? "",
+    assetKind: list("assetKind"),
+    pickRound: list("pickRound"),
+    minFaab: sp.get("minFaab") ?? "",
+    page: Math.max(1, Math.trunc(Number(sp.get("page"))) || 1),
+  };
+}
+
+const ASSET_KINDS: Facet[] = [
+  { value: "player", label: "Players" },
+  { value: "pick", label: "Draft picks" },
+  { value: "faab", label: "FAAB" },
+];
+
+const STATUS_BADGE: Record<string, string> = {
+  failed: "bg-rose-50 text-rose-700",
+  pending: "bg-amber-50 text-amber-800",
+};
+
+function renderCommaList(items: string[]) {
+  return (
+    <>
+      {items.map((it, idx) => (
+        <React.Fragment key={`${it}-${idx}`}>
+          {idx > 0 ? <span>, </span> : null}
+          {renderMaybePickLabel(it)}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+export default function TransactionsClient({
+  rootLeagueId,
+  basePath,
+}: {
+  rootLeagueId: string;
+  basePath: string; // /l/<slug>
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // Filters and page start from the URL (shared links, refresh); later changes are written back
+  const [initial] = React.useState(() => readPageQuery(searchParams));
+
+  const [seasonSel, setSeasonSel] = React.useState<string[]>(initial.season);
+  const [typeSel, setTypeSel] = React.useState<string[]>(initial.type);
+  const [teamSel, setTeamSel] = React.useState<string[]>(initial.team);
+  const [statusSel, setStatusSel] = React.useState<string[]>(initial.status);
+
+  const [page, setPage] = React.useState(initial.page);
+  const pageSize = 50;
+
+  const [data, setData] = React.useState<ApiResp | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  // Player search
+  const [playerQ, setPlayerQ] = React.useState("");
+  const [playerOpen, setPlayerOpen] = React.useState(false);
+  const [playerLoading, setPlayerLoading] = React.useState(false);
+  const [playerResults, setPlayerResults] = React.useState<PlayerSearchResp["results"]>([]);
+  const [playerErr, setPlayerErr] = React.useState<string | null>(null);
+
+  // IMPORTANT: server-side player filter should use playerId, not name substring.
+  // Players are only added to the filter when picked from the autocomplete.
+  // Players from the URL or a preset start with their id as name until looked up.
+  const [selectedPlayers, setSelectedPlayers] = React.useState<{ id: string; name: string }[]>(
+    initial.playerIds.map((id) => ({ id, name: id }))
+  );
+  const [playerMatch, setPlayerMatch] = React.useState<"any" | "all">(initial.playerMatch);
+
+  // Week / date / asset filters (inputs kept as typed; the API ignores invalid values)
+  const [weekFrom, setWeekFrom] = React.useState(initial.weekFrom);
+  const [weekTo, setWeekTo] = React.useState(initial.weekTo);
+  const [dateFrom, setDateFrom] = React.useState(initial.from);
+  const [dateTo, setDateTo] = React.useState(initial.to);
+  const [assetKindSel, setAssetKindSel] = React.useState<string[]>(initial.assetKind);
+  const [roundSel, setRoundSel] = React.useState<string[]>(initial.pickRound);
+  const [minFaab, setMinFaab] = React.useState(initial.minFaab);
+
+  // Free-text search: the box updates searchInput, the API sees q once typing pauses
+  const [searchInput, setSearchInput] = React.useState(initial.q);
+  const [q, setQ] = React.useState(initial.q);
+
+  // Saved filter presets (signed-in users)
+  const [presets, setPresets] = React.useState<Preset[]>([]);
+  const [signedIn, setSignedIn] = React.useState(false);
+  const [presetName, setPresetName] = React.useState("");
+  const [presetErr, setPresetErr] = React.useState<string | null>(null);
+
+  const playerIdsKey = selectedPlayers.map((p) => p.id).join(",");
+
+  React.useEffect(() => {
+    const t = setTimeout(() => setQ(searchInput.trim()), 300);
+    return () => clearTimeout(t);
+  }, [searchInput]);
+
+  // Shared by the list, the export links, the page URL and saved presets
+  const filterParams = React.useMemo(
+    () => ({
+      season: seasonSel.join(","),
+      type: typeSel.join(","),
+      team: teamSel.join(","),
+      // Omitted for the default (completed only) to keep URLs short
+      status:
+        statusSel.join(",") === DEFAULT_STATUSES.join(",")
+          ? ""
+          : statusSel.length
+            ? statusSel.join(",")
+            : "all",
+      playerId: playerIdsKey,
+      playerMatch: playerIdsKey.includes(",") ? playerMatch : "",
+      q,
+      weekFrom,
+      weekTo,
+      from: dateFrom,
+      to: dateTo,
+      assetKind: assetKindSel.join(","),
+      pickRound: roundSel.join(","),
+      minFaab,
+    }),
+    [
+      seasonSel,
+      typeSel,
+      teamSel,
+      statusSel,
+      playerIdsKey,
+      playerMatch,
+      q,
+      weekFrom,
+      weekTo,
+      dateFrom,
+      dateTo,
+      assetKindSel,
+      roundSel,
+      minFaab,
+    ]
+  );
+
+  // Keyset cursors by page (cursors[page - 1] fetches `page`), for the current filters.
+  // A page without a known cursor falls back to offset paging.
+  const cursorsRef = React.useRef<{ filters: typeof filterParams; list: (string | null)[] }>({
+    filters: filterParams,
+    list: [null],
+  });
+
+  const load = React.useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      if (cursorsRef.current.filters !== filterParams) {
+        cursorsRef.current = { filters: filterParams, list: [null] };
+      }
+      const cursors = cursorsRef.current.list;
+      const qs = buildQuery({
+        leagueId: rootLeagueId,
+        ...filterParams,
+        page,
+        pageSize,
+        cursor: cursors[page - 1],
+      });
+
+      const res = await fetch(`/api/transactions${qs}`, { cache: "no-store" });
+      const json = (await res.json()) as ApiResp;
+
+      if (!json.ok) {
+        setErr(json.error ?? "Failed to load transactions.");
+        setData(null);
+      } else {
+        cursors[page] = json.nextCursor;
+        setData(json);
+      }
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+      setData(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [rootLeagueId, filterParams, page]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  // Reset to page 1 when filters change (or to the page of a just-applied preset)
+  const prevFiltersRef = React.useRef(filterParams);
+  const pendingPageRef = React.useRef<number | null>(null);
+
+  React.useEffect(() => {
+    if (prevFiltersRef.current === filterParams) return;
+    prevFiltersRef.current = filterParams;
+    setPage(pendingPageRef.current ?? 1);
+    pendingPageRef.current = null;
+  }, [filterParams]);
+
+  // Keep the URL in step; replace, not push, so typing doesn't flood the history
+  const urlQuery = buildQuery({ ...filterParams, page: page > 1 ? page : "" });
+  React.useEffect(() => {
+    router.replace(`${pathname}${urlQuery}`, { scroll: false });
+  }, [router, pathname, urlQuery]);
+
+  // Names of selected players that only came with their ids
+  const unnamedIds = selectedPlayers
+    .filter((p) => p.name === p.id)
+    .map((p) => p.id)
+    .join(",");
+
+  React.useEffect(() => {
+    if (!unnamedIds) return;
+    let alive = true;
+
+    fetch(`/api/players/search${buildQuery({ ids: unnamedIds })}`, { cache: "no-store" })
+      .then((res) => res.json() as Promise<PlayerSearchResp>)
+      .then((json) => {
+        if (!alive || !json.ok) return;
+        const names = new Map(json.results.map((p) => [p.id, p.fullName ?? p.id]));
+        setSelectedPlayers((list) => list.map((p) => ({ ...p, name: names.get(p.id) ?? p.name })));
+      })
+      .catch(() => {
+        // keep showing ids
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [unnamedIds]);
+
+  function applyQuery(query: string) {
+    const next = readPageQuery(new URLSearchParams(query));
+    setSeasonSel(next.season);
+    setTypeSel(next.type);
+    setTeamSel(next.team);
+    setStatusSel(next.status);
+    setSelectedPlayers(
+      next.playerIds.map((id) => ({
+        id,
+        name: selectedPlayers.find((p) => p.id === id)?.name ?? id,
+      }))
+    );
+    setPlayerMatch(next.playerMatch);
+    setSearchInput(next.q);
+    setQ(next.q);
+    setWeekFrom(next.weekFrom);
+    setWeekTo(next.weekTo);
+    setDateFrom(next.from);
+    setDateTo(next.to);
+    setAssetKindSel(next.assetKind);
+    setRoundSel(next.pickRound);
+    setMinFaab(next.minFaab);
+    pendingPageRef.current = next.page;
+  }
+
+  const exportParams = { leagueId: rootLeagueId, ...filterParams };
+
+  const presetsUrl = `/api${basePath}/presets`;
+  const filterQuery = buildQuery(filterParams).replace(/^\?/, "");
+
+  React.useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const res = await fetch(presetsUrl, { cache: "no-store" });
+        if (!alive) return;
+        // 401 = signed out: no presets, and no error either
+        if (res.status === 401) {
+          setSignedIn(false);
+          return;
+        }
+
+        const json = (await res.json()) as PresetsResp;
+        if (!alive) return;
+        if (!json.ok) throw new Error(json.error ?? "Failed to load saved filters.");
+
+        setSignedIn(true);
+        setPresets(json.presets ?? []);
+      } catch (e) {
+        if (alive) setPresetErr(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [presetsUrl]);
+
+  async function savePreset() {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresetErr(null);
+    try {
+      const res = await fetch(presetsUrl, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name, query: filterQuery }),
+      });
+      const json = await res.json();
+      if (!json.ok) throw new Error(json.error ?? "Failed to save preset.");
+
+      const saved = json.preset as Preset;
+      setPresets((list) =>
+        [...list.filter((p) => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setPresetName("");
+    } catch (e) {
+      setPresetErr(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function deletePreset(id: string) {
+    setPresetErr(null);
+    try {
+      const res = await fetch(`${presetsUrl}/${id}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!json.ok) throw new Error(json.error ?? "Failed to delete preset.");
+      setPresets((list) => list.filter((p) => p.id !== id));
+    } catch (e) {
+      setPresetErr(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // Player autocomplete (>= 3 chars)
+  React.useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const q = playerQ.trim();
+      if (q.length < 3) {
+        setPlayerResults([]);
+        setPlayerErr(null);
+        return;
+      }
+      setPlayerLoading(true);
+      setPlayerErr(null);
+      try {
+        const res = await fetch(`/api/players/search${buildQuery({ q })}`, { cache: "no-store" });
+        const json = (await res.json()) as PlayerSearchResp;
+        if (!alive) return;
+
+        if (!json.ok) {
+          setPlayerErr(json.error ?? "Search failed.");
+          setPlayerResults([]);
+        } else {
+          setPlayerResults(json.results ?? []);
+        }
+      } catch (e: any) {
+        if (!alive) return;
+        setPlayerErr(e?.message ?? String(e));
+        setPlayerResults([]);
+      } finally {
+        if (alive) setPlayerLoading(false);
+      }
+    }
+
+    const t = setTimeout(run, 200);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [playerQ]);
+
+  function toggle(list: string[], v: string, setList: (x: string[]) => void) {
+    setList(list.includes(v) ? list.filter((x) => x !== v) : [...list, v]);
+  }
+
+  function clearAll() {
+    setSeasonSel([]);
+    setTypeSel([]);
+    setTeamSel([]);
+    setStatusSel(DEFAULT_STATUSES);
+    setPlayerQ("");
+    setSelectedPlayers([]);
+    setPlayerMatch("any");
+    setPlayerResults([]);
+    setSearchInput("");
+    setQ("");
+    setWeekFrom("");
+    setWeekTo("");
+    setDateFrom("");
+    setDateTo("");
+    setAssetKindSel([]);
+    setRoundSel([]);
+    setMinFaab("");
+  }
+
+  const totalPages = data?.totalPages ?? 1;
+  const hasNext = !!data?.nextCursor;
+
+  const terms = data?.terms;
+  const highlight = React.useMemo(() => termsRegex(terms ?? []), [terms]);
+
+  const Pager = ({ className }: { className?: string }) => (
+    <div
+      className={`rounded-3xl border border-zinc-200 bg-white p-4 shadow-sm text-sm text-zinc-600 flex flex-wrap gap-3 items-center justify-between ${
+        className ?? ""
+      }`}
+    >
+      <div>
+        Showing{" "}
+        <span className="font-semibold text-zinc-900">{data?.items?.length ?? 0}</span>{" "}
+        {data ? (
+          <>
+            of <span className="font-semibold text-zinc-900">{data.total}</span>
+          </>
+        ) : null}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          className={`rounded-xl px-3 py-2 font-semibold ${
+            page <= 1 ? "text-zinc-400" : "text-zinc-900 hover:bg-zinc-100"
+          }`}
+          onClick={() => page > 1 && setPage(page - 1)}
+          disabled={page <= 1}
+        >
+          ← Prev
+        </button>
+
+        <div className="text-zinc-600">
+          Page <span className="font-semibold text-zinc-900">{page}</span> of{" "}
+          <span className="font-semibold text-zinc-900">{totalPages}</span>
+        </div>
+
+        <button
+          className={`rounded-xl px-3 py-2 font-semibold ${
+            !hasNext ? "text-zinc-400" : "text-zinc-900 hover:bg-zinc-100"
+          }`}
+          onClick={() => hasNext && setPage(page + 1)}
+          disabled={!hasNext}
+        >
+          Next →
+        </button>
+      </div>
+    </div>
+  );
+
+  const CheckList = ({
+    title,
+    items,
+    selected,
+    onToggle,
+  }: {
+    title: string;
+    items: Facet[];
+    selected: string[];
+    onToggle: (v: string) => void;
+  }) => (
+    <div className="space-y-2">
+      <div className="text-sm font-semibold text-zinc-900">{title}</div>
+      <div className="max-h-48 overflow-auto rounded-2xl border border-zinc-200 bg-white p-2">
+        {items.length === 0 ? (
+          <div className="p-2 text-sm text-zinc-500">None</div>
+        ) : (
+          <ul className="space-y-1">
+            {items.map((it) => (
+              <li key={it.value}>
+                <label className="flex items-center gap-2 rounded-xl px-2 py-1 hover:bg-zinc-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(it.value)}
+                    onChange={() => onToggle(it.value)}
+                  />
+                  <span className="text-sm text-zinc-900">{it.label}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {selected.length > 0 && (
+        <div className="text-xs text-zinc-500">Selected: {selected.length}</div>
+      )}
+    </div>
+  );
+
+  return (
+    <main className="mx-auto max-w-6xl p-6 space-y-6">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Transactions</h1>
+            <p className="mt-1 text-sm text-zinc-600">
+              {data ? (
+                <>
+                  Total in league history:{" "}
+                  <span className="font-semibold text-zinc-900">{data.total}</span>
+                </>
+              ) : (
+                <>Loading league history…</>
+              )}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <a
+              href={`${basePath}/transactions/waivers`}
+              className="rounded-2xl px-4 py-2 text-sm font-semibold text-zinc-700 hover:bg-zinc-50"
+            >
+              Waiver bids →
+            </a>
+            <a
+              href={`/api/transactions/export${buildQuery({ ...exportParams, format: "csv" })}`}
+              className="rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm font-semibold text-zinc-900 hover:bg-zinc-50"
+              title="One row per moved asset, with the current filters"
+            >
+              Export CSV
+            </a>
+            <a
+              href={`/api/transactions/export${buildQuery({ ...exportParams, format: "json" })}`}
+              className="rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm font-semibold text-zinc-900 hover:bg-zinc-50"
+              title="Transactions with nested assets, with the current filters"
+            >
+              Export JSON
+            </a>
+            <button
+              className="rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm font-semibold text-zinc-900 hover:bg-zinc-50"
+              onClick={clearAll}
+            >
+              Clear filters
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="rounded-3xl border border-zinc-200 bg-white p-5 shadow-sm space-y-4">
+        {/* Saved presets */}
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="text-sm font-semibold text-zinc-900">Saved filters</div>
+          {presets.map((p) => (
+            <span
+              key={p.id}
+              className={`inline-flex items-center gap-1 rounded-xl border px-2 py-1 text-xs font-semibold ${
+                filterQuery === p.query
+                  ? "border-zinc-900 bg-zinc-900 text-white"
+                  : "border-zinc-200 bg-zinc-50 text-zinc-800 hover:bg-zinc-100"
+              }`}
+            >
+              <button onClick={() => applyQuery(p.query)} title={p.query || "No filters"}>
+                {p.name}
+              </button>
+              <button
+                className="opacity-50 hover:opacity-100"
+                onClick={() => deletePreset(p.id)}
+                aria-label={`Delete ${p.name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+
+          {signedIn ? (
+            <div className="flex items-center gap-2">
+              <input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") savePreset();
+                }}
+                placeholder="Name these filters…"
+                className="rounded-xl border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-900 outline-none focus:border-zinc-900"
+              />
+              <button
+                onClick={savePreset}
+                disabled={!presetName.trim()}
+                className="rounded-xl px-2 py-1 text-xs font-semibold text-zinc-900 hover:bg-zinc-100 disabled:text-zinc-400"
+              >
+                Save
+              </button>
+            </div>
+          ) : (
+            <span className="text-xs text-zinc-500">Sign in to save filter presets.</span>
+          )}
+
+          {presetErr && <span className="text-xs text-rose-700">{presetErr}</span>}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <CheckList
+            title="Seasons"
+            items={data?.facets?.seasons ?? []}
+            selected={seasonSel}
+            onToggle={(v) => toggle(seasonSel, v, setSeasonSel)}
+          />
+          <CheckList
+            title="Types"
+            items={data?.facets?.types ?? []}
+            selected={typeSel}
+            onToggle={(v) => toggle(typeSel, v, setTypeSel)}
+          />
+          <CheckList
+            title="Teams"
+            items={data?.facets?.teams ?? []}
+            selected={teamSel}
+            onToggle={(v) => toggle(teamSel, v, setTeamSel)}
+          />
+          <CheckList
+            title="Status"
+            items={data?.facets?.statuses ?? []}
+            selected={statusSel}
+            onToggle={(v) => toggle(statusSel, v, setStatusSel)}
+          />
+        </div>
+
+        {/* Free-text search */}
+        <div className="pt-2">
+          <div className="text-sm font-semibold text-zinc-900">Search</div>
+          <input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Players, managers, picks (e.g. 2023 R1) or trade notes…"
+            className="mt-2 w-full max-w-xl rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-900 outline-none focus:border-zinc-900"
+          />
+        </div>
+
+        {/* Player search */}
+        <div className="pt-2">
+          <div className="text-sm font-semibold text-zinc-900">Player search</div>
+          <div className="relative mt-2 max-w-xl">
+            <input
+              value={playerQ}
+              onChange={(e) => {
+                setPlayerQ(e.target.value);
+                setPlayerOpen(true);
+              }}
+              onFocus={() => setPlayerOpen(true)}
+              onBlur={() => setTimeout(() => setPlayerOpen(false), 150)}
+              placeholder="Type 3+ chars (e.g. montgomery)…"
+              className="w-full rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-900 outline-none focus:border-zinc-900"
+            />
+
+            {playerOpen && playerQ.trim().length >= 3 && (
+              <div className="absolute z-20 mt-2 w-full overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-lg">
+                {playerLoading && <div className="p-3 text-sm text-zinc-600">Searching…</div>}
+                {playerErr && <div className="p-3 text-sm text-rose-700">{playerErr}</div>}
+                {!playerLoading && !playerErr && playerResults.length === 0 && (
+                  <div className="p-3 text-sm text-zinc-600">No matches.</div>
+                )}
+
+                {!playerLoading &&
+                  !playerErr &&
+                  playerResults.slice(0, 10).map((p) => {
+                    const name = p.fullName ?? p.id;
+                    const meta = [p.position, p.team].filter(Boolean).join(", ");
+                    return (
+                      <button
+                        key={p.id}
+                        className="w-full text-left px-4 py-3 hover:bg-zinc-50"
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => {
+                          setPlayerQ("");
+                          if (!selectedPlayers.some((x) => x.id === p.id)) {
+                            setSelectedPlayers([...selectedPlayers, { id: p.id, name }]);
+                          }
+                          setPlayerOpen(false);
+                        }}
+                      >
+                        <div className="text-sm font-semibold text-zinc-900">{name}</div>
+                        <div className="text-xs text-zinc-600">
+                          {meta || "—"} {p.status ? `• ${p.status}` : ""}
+                        </div>
+                      </button>
+                    );
+                  })}
+              </div>
+            )}
+          </div>
+
+          {selectedPlayers.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {selectedPlayers.map((p) => (
+                <span
+                  key={p.id}
+                  className="inline-flex items-center gap-1 rounded-xl border border-zinc-200 bg-zinc-50 px-2 py-1 text-xs font-semibold text-zinc-800"
+                >
+                  {p.name}
+                  <button
+                    className="text-zinc-400 hover:text-zinc-900"
+                    onClick={() => setSelectedPlayers(selectedPlayers.filter((x) => x.id !== p.id))}
+                    aria-label={`Remove ${p.name}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+
+              {selectedPlayers.length > 1 && (
+                <select
+                  value={playerMatch}
+                  onChange={(e) => setPlayerMatch(e.target.value === "all" ? "all" : "any")}
+                  className="rounded-xl border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-900"
+                >
+                  <option value="any">Involving any of them</option>
+                  <option value="all">Involving all of them</option>
+                </select>
+              )}
+            </div>
+          )}
+
+          <div className="mt-2 text-xs text-zinc-500">
+            Select suggestions to filter server-side; add several to match any or all of them.
+          </div>
+        </div>
+
+        {/* Week / date / asset filters */}
+        <div className="grid grid-cols-1 gap-4 pt-2 md:grid-cols-4">
+          <div className="space-y-2">
+            <div className="text-sm font-semibold text-zinc-900">Weeks</div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                value={weekFrom}
+                onChange={(e) => setWeekFrom(e.target.value)}
+                placeholder="From"
+                className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-zinc-900"
+              />
+              <span className="text-zinc-400">–</span>
+              <input
+                type="number"
+                min={0}
+                value={weekTo}
+                onChange={(e) => setWeekTo(e.target.value)}
+                placeholder="To"
+                className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-zinc-900"
+              />
+            </div>
+
+            <div className="pt-2 text-sm font-semibold text-zinc-900">Dates</div>
+            <div className="grid gap-2">
+              <input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-zinc-900"
+              />
+              <input
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-zinc-900"
+              />
+            </div>
+          </div>
+
+          <CheckList
+            title="Assets"
+            items={ASSET_KINDS}
+            selected={assetKindSel}
+            onToggle={(v) => toggle(assetKindSel, v, setAssetKindSel)}
+          />
+          <CheckList
+            title="Pick rounds"
+            items={data?.facets?.pickRounds ?? []}
+            selected={roundSel}
+            onToggle={(v) => toggle(roundSel, v, setRoundSel)}
+          />
+
+          <div className="space-y-2">
+            <div className="text-sm font-semibold text-zinc-900">Minimum FAAB</div>
+            <input
+              type="number"
+              min={0}
+              value={minFaab}
+              onChange={(e) => setMinFaab(e.target.value)}
+              placeholder="$"
+              className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-zinc-900"
+            />
+            <div className="text-xs text-zinc-500">Waiver bids and FAAB traded, in dollars.</div>
+          </div>
+        </div>
+      </div>
+
+      {err && (
+        <div className="rounded-3xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-800">
+          {err}
+        </div>
+      )}
+      {loading && (
+        <div className="rounded-3xl border border-zinc-200 bg-white p-4 text-sm text-zinc-600">
+          Loading…
+        </div>
+      )}
+
+      <Pager />
+
+      <div className="rounded-3xl border border-zinc-200 bg-white shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-50 text-zinc-600">
+            <tr>
+              <th className="text-left p-3">Season</th>
+              <th className="text-left p-3">Date</th>
+              <th className="text-left p-3">Type</th>
+              <th className="text-left p-3">Teams</th>
+              <th className="text-left p-3">Moves</th>
+            </tr>
+          </thead>
+
+          <HighlightContext.Provider value={highlight}>
+            <tbody>
+              {(data?.items ?? []).map((t) => (
+                <tr key={t.id} className="border-t align-top">
+                  <td className="p-3 whitespace-nowrap">{t.season}</td>
+                  <td className="p-3 whitespace-nowrap">{fmtDate(t.createdAt)}</td>
+                  <td className="p-3 whitespace-nowrap">
+                    {t.typeLabel}
+                    {t.status !== "complete" ? (
+                      <span
+                        className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                          STATUS_BADGE[t.status] ?? "bg-zinc-100 text-zinc-700"
+                        }`}
+                      >
+                        {t.status}
+                      </span>
+                    ) : null}
+                  </td>
+                  <td className="p-3 whitespace-nowrap">
+                    <Hl text={t.teams.join(" ↔ ") || "—"} />
+                  </td>
+                  <td className="p-3">
+                    {t.type === "trade" ? (
+                      <div className="space-y-2">
+                        {t.received.map((r) => (
+                          <div key={`recv-${r.rosterId}`} className="leading-snug">
+                            <div className="font-semibold text-zinc-900">
+                              <Hl text={r.team} /> received
+                            </div>
+                            <div className="text-zinc-700">{renderCommaList(r.items)}</div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {t.added && t.added.length > 0 && (
+                          <div className="space-y-1">
+                            {t.added.map((a) => (
+                              <div key={`add-${a.rosterId}`} className="text-emerald-800">
+                                <span className="font-semibold">
+                                  <Hl text={a.team} />
+                                </span>
+                                : Added{" "}
+                                {renderCommaList(a.items)}
+                                {typeof a.faab === "number" && a.faab > 0 ? (
+                                  <span className="ml-2 text-emerald-900 font-semibold">
+                                    (FAAB ${a.faab})
+                                  </span>
+                                ) : null}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {t.dropped && t.dropped.length > 0 && (
+                          <div className="space-y-1">
+                            {t.dropped.map((d) => (
+                              <div key={`drop-${d.rosterId}`} className="text-rose-800">
+                                <span className="font-semibold">
+                                  <Hl text={d.team} />
+                                </span>
+                                : Dropped{" "}
+                                {renderCommaList(d.items)}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {t.moved && t.moved.length > 0 && (
+                          <div className="space-y-1">
+                            {t.moved.map((m) => (
+                              <div key={`move-${m.fromRosterId}-${m.toRosterId}`} className="text-zinc-800">
+                                <span className="font-semibold">
+                                  <Hl text={m.from} /> → <Hl text={m.to} />
+                                </span>
+                                : Moved{" "}
+                                {renderCommaList(m.items)}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {(!t.added || t.added.length === 0) &&
+                          (!t.dropped || t.dropped.length === 0) &&
+                          (!t.moved || t.moved.length === 0) && (
+                            <span className="text-zinc-400">—</span>
+                          )}
+                      </div>
+                    )}
+                    {t.noteMatch ? <NoteExcerpt text={t.noteMatch} /> : null}
+                  </td>
+                </tr>
+              ))}
+
+              {(data?.items?.length ?? 0) === 0 && (
+                <tr>
+                  <td className="p-6 text-zinc-600" colSpan={5}>
+                    No transactions match the current filters.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </HighlightContext.Provider>
+        </table>
+      </div>
+
+      <Pager className="mb-8" />
+    </main>
+  );
+}
@@ -0,0 +1,12 @@
+// src/app/l/[slug]/transactions/page.tsx
+import { requireLeague } from "@/lib/leagues";
+import TransactionsClient from "./TransactionsClient";
+
+export const dynamic = "force-dynamic";
+
+type Props = { params: Promise<{ slug: string }> };
+
+export default async function TransactionsPage({ params }: Props) {
+  const league = await requireLeague((await params).slug);
+  return <TransactionsClient rootLeagueId={league.rootLeagueId} basePath={`/l/${league.slug}`} />;
+}
@@ -0,0 +1,207 @@
+import { db } from "@/lib/db";
+import { storedLeagueChain } from "@/lib/leagueChain";
+import { requireLeague } from "@/lib/leagues";
+import { getRosterNameMap } from "@/lib/names";
+import { normalizeTransaction } from "@/lib/normalizeTransaction";
+import type { SleeperTransaction } from "@/lib/sleeperSchemas";
+
+export const dynamic = "force-dynamic";
+
+type Bid = {
+  txId: string;
+  rosterId: number;
+  bid: number | null;
+  status: string;
+  note: string | null;
+};
+
+type Run = {
+  key: string;
+  processedAt: Date;
+  week: number;
+  players: Map<string, Bid[]>;
+};
+
+type Props = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ season?: string }>;
+};
+
+/**
+ * Waivers process in batches (a "run"); every claim of a run is settled on the same day.
+ */
+function runKeyOf(leagueId: string, week: number, processedAt: Date) {
+  return `${leagueId}::${week}::${processedAt.toISOString().slice(0, 10)}`;
+}
+
+function noteOf(raw: unknown) {
+  const notes = (raw as { metadata?: { notes?: unknown } } | null)?.metadata?.notes;
+  return typeof notes === "string" && notes.length > 0 ? notes : null;
+}
+
+export default async function WaiverBidsPage({ params, searchParams }: Props) {
+  const league = await requireLeague((await params).slug);
+  const base = `/l/${league.slug}`;
+  const leagueIds = await storedLeagueChain(league.rootLeagueId);
+  const seasons = await db.leagueSeason.findMany({
+    where: { leagueId: { in: leagueIds } },
+    select: { leagueId: true, season: true },
+    orderBy: { season: "desc" },
+  });
+
+  const seasonParam = Number((await searchParams).season);
+  const current = seasons.find((s) => s.season === seasonParam) ?? seasons[0];
+
+  if (!current) {
+    return (
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">Waiver Bids</h1>
+        <p className="mt-2 text-sm text-zinc-600">
+          No data yet.{" "}
+          <a href="/setup" className="font-medium text-zinc-900 hover:underline">
+            Run the setup
+          </a>{" "}
+          to pull this league&apos;s history.
+        </p>
+      </div>
+    );
+  }
+
+  const { leagueId, season } = current;
+
+  const [claims, rosterNames] = await Promise.all([
+    db.transaction.findMany({
+      where: { leagueId, season, type: "waiver", status: { in: ["complete", "failed"] } },
+      select: {
+        id: true,
+        week: true,
+        status: true,
+        updatedAtMs: true,
+        createdAt: true,
+        rawJson: true,
+      },
+      orderBy: [{ updatedAtMs: "desc" }],
+    }),
+    getRosterNameMap(leagueId, season),
+  ]);
+  const nameOf = (id: number) => rosterNames.get(id) ?? `Roster ${id}`;
+
+  // Group claims into runs, then by the player being claimed
+  const runs = new Map<string, Run>();
+  for (const c of claims) {
+    const processedAt = c.updatedAtMs !== null ? new Date(Number(c.updatedAtMs)) : c.createdAt;
+    const key = runKeyOf(leagueId, c.week, processedAt);
+    const run = runs.get(key) ?? { key, processedAt, week: c.week, players: new Map() };
+
+    const tx = normalizeTransaction(c.rawJson as SleeperTransaction);
+    for (const a of tx.assets) {
+      if (a.kind !== "player" || a.toRosterId === null || !a.playerId) continue;
+
+      const bids = run.players.get(a.playerId) ?? [];
+      bids.push({
+        txId: c.id,
+        rosterId: a.toRosterId,
+        bid: tx.waiverBid,
+        status: c.status,
+        note: noteOf(c.rawJson),
+      });
+      run.players.set(a.playerId, bids);
+    }
+    runs.set(key, run);
+  }
+
+  const playerIds = Array.from(
+    new Set(Array.from(runs.values()).flatMap((r) => Array.from(r.players.keys())))
+  );
+  const players = await db.sleeperPlayer.findMany({
+    where: { id: { in: playerIds } },
+    select: { id: true, fullName: true, position: true, team: true },
+  });
+  const playerMap = new Map(players.map((p) => [p.id, p]));
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <div className="text-sm text-zinc-500">
+          <a href={`${base}/transactions`} className="hover:underline">
+            ← Transactions
+          </a>
+        </div>
+        <h1 className="mt-2 text-2xl font-semibold tracking-tight">Waiver Bids</h1>
+        <p className="mt-1 text-sm text-zinc-600">
+          Every claim per waiver run, including the ones that lost
+        </p>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {seasons.map((s) => (
+            <a
+              key={s.leagueId}
+              href={`${base}/transactions/waivers?season=${s.season}`}
+              className={`rounded-xl px-3 py-1.5 text-sm font-medium ${
+                s.season === season ? "bg-zinc-900 text-white" : "text-zinc-700 hover:bg-zinc-100"
+              }`}
+            >
+              {s.season}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {Array.from(runs.values()).map((run) => (
+        <div key={run.key} className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+          <div className="border-b border-zinc-200 px-4 py-3 text-sm">
+            <span className="font-semibold">Week {run.week}</span>{" "}
+            <span className="text-zinc-500">• processed {run.processedAt.toLocaleDateString()}</span>
+          </div>
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-zinc-200">
+              {Array.from(run.players.entries()).map(([playerId, bids]) => {
+                const p = playerMap.get(playerId);
+                const sorted = [...bids].sort((a, b) => (b.bid ?? 0) - (a.bid ?? 0));
+
+                return (
+                  <tr key={playerId} className="align-top hover:bg-zinc-50">
+                    <td className="w-1/3 px-4 py-3">
+                      <a href={`${base}/players/${playerId}`} className="font-medium hover:underline">
+                        {p?.fullName ?? playerId}
+                      </a>{" "}
+                      <span className="text-xs text-zinc-500">
+                        {[p?.position, p?.team].filter(Boolean).join(" • ")}
+                      </span>
+                      {bids.length > 1 ? (
+                        <div className="text-xs text-zinc-500">{bids.length} bids</div>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <ul className="space-y-1">
+                        {sorted.map((b) => (
+                          <li
+                            key={b.txId}
+                            className={
+                              b.status === "complete" ? "font-semibold text-emerald-800" : "text-zinc-500"
+                            }
+                          >
+                            {nameOf(b.rosterId)} {b.bid !== null ? `$${b.bid}` : "(no bid)"}
+                            {b.status === "complete" ? " ✓ won" : null}
+                            {b.status !== "complete" && b.note ? (
+                              <span className="ml-2 text-xs italic">{b.note}</span>
+                            ) : null}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {runs.size === 0 && (
+        <div className="rounded-3xl border border-zinc-200 bg-white p-6 text-sm text-zinc-600 shadow-sm">
+          No waiver claims in {season}.
+        </div>
+      )}
+    </div>
+  );
+}
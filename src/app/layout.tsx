@@ -1,23 +1,19 @@
 import "./globals.css";
 import type { Metadata } from "next";
+import { listLeagues } from "@/lib/leagues";
+import LeagueNav from "./LeagueNav";
 
 export const metadata: Metadata = {
   title: "Dynasty Hub",
   description: "Sleeper dynasty history tracker",
 };
 
-function NavLink({ href, label }: { href: string; label: string }) {
-  return (
-    <a
-      href={href}
-      className="rounded-xl px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 hover:text-zinc-900"
-    >
-      {label}
-    </a>
-  );
-}
+// The league nav reads the registry, so no page (not even /_not-found) is prerendered at build
+export const dynamic = "force-dynamic";
+
+export default async function RootLayout({ children }: { children: React.ReactNode }) {
+  const leagues = await listLeagues();
 
-export default function RootLayout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en">
       <body className="min-h-dvh bg-zinc-50 text-zinc-900 antialiased">
@@ -33,10 +29,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
               </div>
             </a>
 
-            <nav className="flex items-center gap-1">
-              <NavLink href="/transactions" label="Transactions" />
-              <NavLink href="/h2h" label="Head-to-Head" />
-            </nav>
+            <LeagueNav leagues={leagues} />
           </div>
         </header>
 
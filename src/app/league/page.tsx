@@ -0,0 +1,9 @@
+import { redirect } from "next/navigation";
+import { defaultLeaguePath } from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+// Pre-registry URL: moved under /l/<slug>
+export default async function Page() {
+  redirect(await defaultLeaguePath("/league"));
+}
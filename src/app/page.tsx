@@ -1,4 +1,13 @@
-export default function Home() {
+import { redirect } from "next/navigation";
+import { getDefaultLeague } from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+export default async function Home() {
+  // First run: nothing to show until a league is set up
+  const league = await getDefaultLeague();
+  if (!league) redirect("/setup");
+
   return (
     <div className="grid gap-6">
       <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
@@ -11,13 +20,13 @@ export default function Home() {
 
         <div className="mt-5 flex flex-wrap gap-2">
           <a
-            href="/transactions"
+            href={`/l/${league.slug}/transactions`}
             className="rounded-2xl bg-zinc-900 px-4 py-2 text-sm font-semibold text-white hover:bg-zinc-800"
           >
             View Transactions
           </a>
           <a
-            href="/h2h"
+            href={`/l/${league.slug}/h2h`}
             className="rounded-2xl border border-zinc-200 bg-white px-4 py-2 text-sm font-semibold text-zinc-900 hover:bg-zinc-50"
           >
             View Head-to-Head
@@ -0,0 +1,332 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type ChainSeason = {
+  leagueId: string;
+  season: string;
+  name: string | null;
+  status: string | null;
+  teams: number | null;
+  managers: string[];
+};
+
+type LeagueOption = { leagueId: string; name: string | null; season: string; teams: number | null };
+
+type Run = {
+  id: string;
+  kind: string;
+  status: string;
+  leagueIds: string[];
+  counts: Record<string, number> | null;
+  error: string | null;
+};
+
+type Step = "lookup" | "preview" | "syncing" | "done";
+
+// Sleeper league ids are long numbers; anything else is treated as a username
+const LEAGUE_ID = /^\d{8,}$/;
+
+function StatusBadge({ status }: { status: string }) {
+  const cls =
+    status === "ok"
+      ? "bg-emerald-50 text-emerald-800 border-emerald-200"
+      : status === "failed"
+        ? "bg-rose-50 text-rose-800 border-rose-200"
+        : "bg-amber-50 text-amber-800 border-amber-200";
+  return (
+    <span className={`inline-flex rounded-xl border px-2 py-0.5 text-xs font-semibold ${cls}`}>
+      {status}
+    </span>
+  );
+}
+
+async function getJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error ?? `Request failed (${res.status})`);
+  return data;
+}
+
+export default function SetupClient() {
+  const [input, setInput] = useState("");
+  const [step, setStep] = useState<Step>("lookup");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [userLeagues, setUserLeagues] = useState<LeagueOption[] | null>(null);
+  const [chain, setChain] = useState<ChainSeason[]>([]);
+  const [name, setName] = useState("");
+  const [adminSecret, setAdminSecret] = useState("");
+
+  const [slug, setSlug] = useState<string | null>(null);
+  const [since, setSince] = useState<string | null>(null);
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [runIds, setRunIds] = useState<string[] | null>(null);
+
+  async function preview(leagueId: string) {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getJson(`/api/setup/preview?leagueId=${encodeURIComponent(leagueId)}`);
+      setChain(data.chain ?? []);
+      setName(data.chain?.[0]?.name ?? "");
+      setStep("preview");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function lookup() {
+    const value = input.trim();
+    if (!value) return;
+
+    if (LEAGUE_ID.test(value)) return preview(value);
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getJson(`/api/setup/preview?username=${encodeURIComponent(value)}`);
+      setUserLeagues(data.leagues ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function start() {
+    const rootLeagueId = chain[0]?.leagueId;
+    if (!rootLeagueId) return;
+
+    setError(null);
+    setStep("syncing");
+    setRunIds(null);
+
+    try {
+      const params = new URLSearchParams({ leagueId: rootLeagueId });
+      if (name.trim()) params.set("name", name.trim());
+      const { league, registeredAt } = await getJson(`/api/leagues?${params.toString()}`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${adminSecret}` },
+      });
+      setSlug(league.slug);
+      setSince(registeredAt);
+
+      // Long-running: progress comes from polling the sync run ledger meanwhile
+      const history = await getJson(`/api/l/${league.slug}/sync-history`, { method: "POST" });
+      const players = await getJson(`/api/players/sync`, { method: "POST" });
+
+      // Once finished, only this setup's runs (not a cron run that started meanwhile)
+      const results: { runId?: string | null }[] = history.results ?? [];
+      setRunIds(
+        [history.runId, ...results.map((r) => r.runId), players.runId].filter(
+          (id): id is string => !!id
+        )
+      );
+      setStep("done");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  useEffect(() => {
+    if (!since || step === "lookup" || step === "preview") return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const data = await getJson(`/api/sync-runs?since=${encodeURIComponent(since)}`);
+        if (!cancelled) setRuns(data.runs ?? []);
+      } catch {
+        // keep the last known progress
+      }
+    };
+
+    poll();
+    if (step === "done" || error) return;
+
+    const handle = setInterval(poll, 2000);
+    return () => {
+      cancelled = true;
+      clearInterval(handle);
+    };
+  }, [since, step, error]);
+
+  const shownRuns = runIds ? runs.filter((r) => runIds.includes(r.id)) : runs;
+
+  const seasonOf = (leagueId: string) => chain.find((c) => c.leagueId === leagueId)?.season;
+
+  function runLabel(r: Run) {
+    if (r.kind === "players") return "Players";
+    if (r.kind === "history") return "League history";
+    const season = r.leagueIds.map(seasonOf).find(Boolean);
+    return season ? `Season ${season}` : `League ${r.leagueIds.join(", ")}`;
+  }
+
+  return (
+    <div className="grid gap-4">
+      {step === "lookup" || step === "preview" ? (
+        <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <label className="text-xs font-semibold uppercase tracking-wide text-zinc-500" htmlFor="setup-input">
+            Sleeper league id or username
+          </label>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <input
+              id="setup-input"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") lookup();
+              }}
+              placeholder="e.g. 1048235610921234432 or jake316"
+              className="min-w-72 flex-1 rounded-2xl border border-zinc-200 px-4 py-2 text-sm outline-none focus:border-zinc-400"
+            />
+            <button
+              onClick={lookup}
+              disabled={loading || !input.trim()}
+              className="rounded-2xl bg-zinc-900 px-4 py-2 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-50"
+            >
+              {loading ? "Looking up…" : "Look up"}
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-zinc-500">
+            Use the league id of the <span className="font-semibold">current</span> season; older seasons are
+            found through Sleeper&apos;s previous league links.
+          </p>
+
+          {userLeagues && step === "lookup" && (
+            <div className="mt-4 grid gap-2">
+              {userLeagues.map((l) => (
+                <button
+                  key={l.leagueId}
+                  onClick={() => preview(l.leagueId)}
+                  disabled={loading}
+                  className="flex items-center justify-between rounded-2xl border border-zinc-200 px-4 py-3 text-left text-sm hover:bg-zinc-50"
+                >
+                  <span className="font-medium">{l.name ?? l.leagueId}</span>
+                  <span className="text-xs text-zinc-500">
+                    {l.season} • {l.teams ?? "?"} teams
+                  </span>
+                </button>
+              ))}
+              {userLeagues.length === 0 && (
+                <p className="text-sm text-zinc-600">No leagues found for this user this season.</p>
+              )}
+            </div>
+          )}
+        </div>
+      ) : null}
+
+      {error && (
+        <div className="rounded-3xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-800">{error}</div>
+      )}
+
+      {step === "preview" && (
+        <>
+          <div className="overflow-hidden rounded-3xl border border-zinc-200 bg-white shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-zinc-50 text-xs uppercase tracking-wide text-zinc-500">
+                  <tr>
+                    <th className="px-4 py-3 text-left">Season</th>
+                    <th className="px-4 py-3 text-left">League</th>
+                    <th className="px-4 py-3 text-right">Teams</th>
+                    <th className="px-4 py-3 text-left">Managers</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-200">
+                  {chain.map((c) => (
+                    <tr key={c.leagueId} className="align-top hover:bg-zinc-50">
+                      <td className="px-4 py-3 font-medium">{c.season}</td>
+                      <td className="px-4 py-3">
+                        {c.name ?? "—"}
+                        <div className="text-xs text-zinc-500">
+                          {c.leagueId} {c.status ? `• ${c.status}` : ""}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums">{c.teams ?? "—"}</td>
+                      <td className="px-4 py-3 text-xs text-zinc-600">{c.managers.join(", ") || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+            <label className="text-xs font-semibold uppercase tracking-wide text-zinc-500" htmlFor="setup-name">
+              Display name
+            </label>
+            <div className="mt-2 flex flex-wrap gap-2">
+              <input
+                id="setup-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="min-w-72 flex-1 rounded-2xl border border-zinc-200 px-4 py-2 text-sm outline-none focus:border-zinc-400"
+              />
+              <input
+                type="password"
+                value={adminSecret}
+                onChange={(e) => setAdminSecret(e.target.value)}
+                placeholder="Admin secret"
+                aria-label="Admin secret"
+                className="w-48 rounded-2xl border border-zinc-200 px-4 py-2 text-sm outline-none focus:border-zinc-400"
+              />
+              <button
+                onClick={start}
+                disabled={!adminSecret}
+                className="rounded-2xl bg-zinc-900 px-4 py-2 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-50"
+              >
+                Add league and sync {chain.length} season{chain.length === 1 ? "" : "s"}
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-zinc-500">
+              Adding a league needs the deployment&apos;s ADMIN_SECRET.
+            </p>
+          </div>
+        </>
+      )}
+
+      {(step === "syncing" || step === "done") && (
+        <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <div className="text-lg font-semibold">
+            {step === "done" ? "All synced" : error ? "Sync stopped" : "Syncing…"}
+          </div>
+          <p className="mt-1 text-sm text-zinc-600">
+            History first (every season, a few at a time), then the NFL players dictionary. This can take a
+            few minutes; leaving the page doesn&apos;t stop it.
+          </p>
+
+          <ul className="mt-4 grid gap-2">
+            {shownRuns.map((r) => (
+              <li key={r.id} className="flex flex-wrap items-center gap-3 text-sm">
+                <StatusBadge status={r.status} />
+                <span className="font-medium">{runLabel(r)}</span>
+                <span className="text-xs text-zinc-500">
+                  {Object.entries(r.counts ?? {})
+                    .filter(([, v]) => v > 0)
+                    .map(([k, v]) => `${k}: ${v}`)
+                    .join(" • ")}
+                </span>
+                {r.error && <span className="text-xs text-rose-700">{r.error}</span>}
+              </li>
+            ))}
+            {shownRuns.length === 0 && <li className="text-sm text-zinc-500">Starting…</li>}
+          </ul>
+
+          {slug && (
+            <a
+              href={`/l/${slug}/transactions`}
+              className="mt-5 inline-flex rounded-2xl bg-zinc-900 px-4 py-2 text-sm font-semibold text-white hover:bg-zinc-800"
+            >
+              {step === "done" ? "Open the league" : "Open the league (data still loading)"}
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { listLeagues, seedLeagueRegistry } from "@/lib/leagues";
+import SetupClient from "./SetupClient";
+
+export const dynamic = "force-dynamic";
+
+export default async function SetupPage() {
+  // First visit of an env-configured deployment: SLEEPER_LEAGUE_ID shows up as set up
+  await seedLeagueRegistry();
+  const leagues = await listLeagues();
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-3xl border border-zinc-200 bg-white p-6 shadow-sm">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          {leagues.length === 0 ? "Set up your league" : "Add a league"}
+        </h1>
+        <p className="mt-1 text-sm text-zinc-600">
+          Find the league on Sleeper, check its seasons and managers, then pull its full history.
+        </p>
+
+        {leagues.length > 0 && (
+          <div className="mt-4 flex flex-wrap gap-2 text-sm">
+            <span className="text-zinc-500">Already set up:</span>
+            {leagues.map((l) => (
+              <a key={l.slug} href={`/l/${l.slug}/transactions`} className="font-medium hover:underline">
+                {l.name}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <SetupClient />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { redirect } from "next/navigation";
+import { defaultLeaguePath } from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ rosterId: string }>;
+  searchParams: Promise<{ season?: string }>;
+};
+
+// Pre-registry URL: moved under /l/<slug>
+export default async function Page({ params, searchParams }: Props) {
+  const { rosterId } = await params;
+  const { season } = await searchParams;
+  const query = season ? `?season=${encodeURIComponent(season)}` : "";
+  redirect(await defaultLeaguePath(`/teams/${rosterId}${query}`));
+}
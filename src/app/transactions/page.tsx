@@ -1,9 +1,9 @@
-// src/app/transactions/page.tsx
-import TransactionsClient from "./TransactionsClient";
+import { redirect } from "next/navigation";
+import { defaultLeaguePath } from "@/lib/leagues";
 
 export const dynamic = "force-dynamic";
 
-export default function TransactionsPage() {
-  const rootLeagueId = process.env.SLEEPER_LEAGUE_ID!;
-  return <TransactionsClient rootLeagueId={rootLeagueId} />;
+// Pre-registry URL: moved under /l/<slug>
+export default async function Page() {
+  redirect(await defaultLeaguePath("/transactions"));
 }
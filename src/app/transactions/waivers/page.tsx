@@ -0,0 +1,13 @@
+import { redirect } from "next/navigation";
+import { defaultLeaguePath } from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+type Props = { searchParams: Promise<{ season?: string }> };
+
+// Pre-registry URL: moved under /l/<slug>
+export default async function Page({ searchParams }: Props) {
+  const { season } = await searchParams;
+  const query = season ? `?season=${encodeURIComponent(season)}` : "";
+  redirect(await defaultLeaguePath(`/transactions/waivers${query}`));
+}
@@ -1,4 +1,4 @@
-import NextAuth from "next-auth";
+import NextAuth, { type NextAuthOptions } from "next-auth";
 import Email from "next-auth/providers/email";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { db } from "@/lib/db";
@@ -20,7 +20,7 @@ const emailServer =
       }
     : "smtp://localhost:1025";
 
-export const { handlers, auth, signIn, signOut } = NextAuth({
+export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(db),
   providers: [
     Email({
@@ -40,4 +40,7 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
     },
   },
   secret: process.env.AUTH_SECRET,
-});
+};
+
+// next-auth v4: one handler for both GET and POST of /api/auth/[...nextauth]
+export const authHandler = NextAuth(authOptions);
@@ -0,0 +1,362 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { refreshAllChainViews } from "@/lib/transactionReadModel";
+
+/*
+  League backup archive
+
+  Everything this app can't cheaply get back from Sleeper: every league-scoped table
+  plus the app users that own trade notes, filter presets and roster claims. The global
+  players dictionary is left out (a players sync rebuilds it); so are auth sessions/accounts.
+  Transaction views and their facet/label caches are derived, so they are left out too
+  and rebuilt at the end of a restore.
+
+  Format: gzipped NDJSON
+    line 1    {"format":"dynasty-hub-backup","version":1,"createdAt":...,"tables":[...]}
+    then      {"t":"<table>","r":{...row}}   tables in TABLES order (parents before children)
+    last      {"end":true,"counts":{...}}    missing = truncated archive
+
+  BigInt columns are written as {"$bigint":"..."}; dates as ISO strings.
+  Restore inserts with skipDuplicates, so it can be rerun after a partial import.
+*/
+
+export const BACKUP_FORMAT = "dynasty-hub-backup";
+export const BACKUP_VERSION = 1;
+
+const BATCH = 500;
+
+type Row = Record<string, unknown>;
+
+type TableSpec = {
+  name: string;
+  key: string; // unique column the table is paged by
+  json?: string[]; // nullable Json columns: null has to be written as Prisma.DbNull
+  read: (cursor: string | null) => Promise<Row[]>;
+  write: (rows: Row[]) => Promise<{ count: number }>;
+};
+
+// Next page after `cursor`, in key order
+function pageBy<K extends string>(key: K, cursor: string | null) {
+  return {
+    take: BATCH,
+    orderBy: { [key]: "asc" } as Record<K, "asc">,
+    ...(cursor !== null ? { cursor: { [key]: cursor } as Record<K, string>, skip: 1 } : {}),
+  };
+}
+
+const TABLES: TableSpec[] = [
+  {
+    name: "League",
+    key: "id",
+    read: (cursor) => db.league.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.league.createMany({ data: rows as Prisma.LeagueCreateManyInput[], skipDuplicates: true }),
+  },
+  {
+    name: "LeagueSeason",
+    key: "id",
+    json: ["scoringSettings", "settingsJson"],
+    read: (cursor) => db.leagueSeason.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.leagueSeason.createMany({
+        data: rows as Prisma.LeagueSeasonCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "SleeperUser",
+    key: "sleeperUserId",
+    read: (cursor) => db.sleeperUser.findMany(pageBy("sleeperUserId", cursor)),
+    write: (rows) =>
+      db.sleeperUser.createMany({
+        data: rows as Prisma.SleeperUserCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "Roster",
+    key: "id",
+    json: ["settingsJson"],
+    read: (cursor) => db.roster.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.roster.createMany({ data: rows as Prisma.RosterCreateManyInput[], skipDuplicates: true }),
+  },
+  {
+    name: "RosterSnapshot",
+    key: "id",
+    read: (cursor) => db.rosterSnapshot.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.rosterSnapshot.createMany({
+        data: rows as Prisma.RosterSnapshotCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "Matchup",
+    key: "id",
+    read: (cursor) => db.matchup.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.matchup.createMany({ data: rows as Prisma.MatchupCreateManyInput[], skipDuplicates: true }),
+  },
+  {
+    name: "MatchupPlayer",
+    key: "id",
+    read: (cursor) => db.matchupPlayer.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.matchupPlayer.createMany({
+        data: rows as Prisma.MatchupPlayerCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "Transaction",
+    key: "id",
+    read: (cursor) => db.transaction.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.transaction.createMany({
+        data: rows as Prisma.TransactionCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "TransactionAsset",
+    key: "id",
+    read: (cursor) => db.transactionAsset.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.transactionAsset.createMany({
+        data: rows as Prisma.TransactionAssetCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "TradedPick",
+    key: "id",
+    read: (cursor) => db.tradedPick.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.tradedPick.createMany({
+        data: rows as Prisma.TradedPickCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "Draft",
+    key: "id",
+    json: ["draftOrder", "slotToRosterId"],
+    read: (cursor) => db.draft.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.draft.createMany({ data: rows as Prisma.DraftCreateManyInput[], skipDuplicates: true }),
+  },
+  {
+    name: "DraftPick",
+    key: "id",
+    read: (cursor) => db.draftPick.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.draftPick.createMany({
+        data: rows as Prisma.DraftPickCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "AppUser",
+    key: "id",
+    read: (cursor) => db.appUser.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.appUser.createMany({ data: rows as Prisma.AppUserCreateManyInput[], skipDuplicates: true }),
+  },
+  {
+    name: "TradeNote",
+    key: "id",
+    read: (cursor) => db.tradeNote.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.tradeNote.createMany({
+        data: rows as Prisma.TradeNoteCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "FilterPreset",
+    key: "id",
+    read: (cursor) => db.filterPreset.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.filterPreset.createMany({
+        data: rows as Prisma.FilterPresetCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+  {
+    name: "RosterClaim",
+    key: "id",
+    read: (cursor) => db.rosterClaim.findMany(pageBy("id", cursor)),
+    write: (rows) =>
+      db.rosterClaim.createMany({
+        data: rows as Prisma.RosterClaimCreateManyInput[],
+        skipDuplicates: true,
+      }),
+  },
+];
+
+const tableByName = new Map(TABLES.map((t) => [t.name, t]));
+
+// DOM typings declare the web transform streams' input as BufferSource, not Uint8Array
+type GzipStream = ReadableWritablePair<Uint8Array, Uint8Array>;
+
+function encode(value: unknown) {
+  return JSON.stringify(value, (_k, v) => (typeof v === "bigint" ? { $bigint: v.toString() } : v));
+}
+
+function decode(line: string) {
+  return JSON.parse(line, (_k, v) =>
+    v && typeof v === "object" && typeof v.$bigint === "string" && Object.keys(v).length === 1
+      ? BigInt(v.$bigint)
+      : v
+  );
+}
+
+/**
+ * The whole archive as a gzipped stream, read table by table in pages: one page per
+ * pull(), so a slow download holds back the reads instead of buffering the database.
+ */
+export function backupStream(): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const counts: Record<string, number> = {};
+  let tableIndex = 0;
+  let cursor: string | null = null;
+
+  const ndjson = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(
+          `${encode({
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            createdAt: new Date().toISOString(),
+            tables: TABLES.map((t) => t.name),
+          })}\n`
+        )
+      );
+    },
+
+    async pull(controller) {
+      const write = (value: unknown) => controller.enqueue(encoder.encode(`${encode(value)}\n`));
+
+      try {
+        const table = TABLES[tableIndex];
+        if (!table) {
+          write({ end: true, counts });
+          controller.close();
+          return;
+        }
+
+        const rows = await table.read(cursor);
+        for (const r of rows) write({ t: table.name, r });
+        counts[table.name] = (counts[table.name] ?? 0) + rows.length;
+
+        if (rows.length < BATCH) {
+          tableIndex++;
+          cursor = null;
+        } else {
+          cursor = String(rows[rows.length - 1][table.key]);
+        }
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+  });
+
+  return ndjson.pipeThrough(new CompressionStream("gzip") as GzipStream);
+}
+
+async function* lines(body: ReadableStream<Uint8Array>) {
+  const reader = body
+    .pipeThrough(new DecompressionStream("gzip") as GzipStream)
+    .pipeThrough(new TextDecoderStream() as ReadableWritablePair<string, Uint8Array>)
+    .getReader();
+
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const parts = buffered.split("\n");
+    buffered = parts.pop() ?? "";
+    for (const line of parts) if (line.trim()) yield line;
+  }
+  if (buffered.trim()) yield buffered;
+}
+
+export type RestoreResult = {
+  version: number;
+  createdAt: string;
+  complete: boolean; // false = the archive ended without its end marker
+  tables: Record<string, { rows: number; inserted: number }>;
+  transactionViews: number; // views built afterwards
+};
+
+/**
+ * Restores an archive written by backupStream. Meant for an empty database; rows
+ * that already exist (same primary/unique key) are skipped, so reruns are safe.
+ */
+export async function restoreBackup(body: ReadableStream<Uint8Array>): Promise<RestoreResult> {
+  let header: { format?: string; version?: number; createdAt?: string } | null = null;
+  let complete = false;
+  const tables: RestoreResult["tables"] = {};
+
+  let table = null as TableSpec | null;
+  let pending: Row[] = [];
+
+  const flush = async () => {
+    if (!table || pending.length === 0) return;
+    const res = await table.write(pending);
+    tables[table.name].inserted += res.count;
+    pending = [];
+  };
+
+  for await (const line of lines(body)) {
+    const entry = decode(line);
+
+    if (!header) {
+      if (entry?.format !== BACKUP_FORMAT) throw new Error("Not a dynasty hub backup");
+      if (typeof entry.version !== "number" || entry.version > BACKUP_VERSION) {
+        throw new Error(`Unsupported backup version ${entry.version}`);
+      }
+      header = entry;
+      continue;
+    }
+
+    if (entry?.end) {
+      complete = true;
+      break;
+    }
+
+    const name = String(entry?.t);
+    if (table?.name !== name) {
+      await flush();
+      table = tableByName.get(name) ?? null;
+      if (!table) throw new Error(`Unknown table in backup: ${name}`);
+      tables[name] ??= { rows: 0, inserted: 0 };
+    }
+
+    const row: Row = entry.r;
+    for (const col of table.json ?? []) if (row[col] === null) row[col] = Prisma.DbNull;
+
+    pending.push(row);
+    tables[name].rows++;
+    if (pending.length >= BATCH) await flush();
+  }
+
+  await flush();
+
+  if (!header) throw new Error("Empty backup");
+
+  // Without views the transactions page and export would stay empty until the next sync
+  const transactionViews = await refreshAllChainViews();
+
+  return {
+    version: header.version ?? 0,
+    createdAt: header.createdAt ?? "",
+    complete,
+    tables,
+    transactionViews,
+  };
+}
@@ -0,0 +1,82 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+/*
+  Sync checkpoints
+
+  One AppMeta row per (league, data type, week) that the sync has ingested:
+    key   = sync:<leagueId>:<kind>:<week>
+    value = number of rows ingested for that week
+
+  A checkpointed week is skipped on the next run once it is "settled"
+  (can no longer change). Unsettled weeks are always re-fetched, and so are weeks with
+  quarantined records: they never get a checkpoint, so a schema fix picks them up.
+*/
+
+export type CheckpointKind = "matchups" | "transactions";
+
+function prefix(leagueId: string, kind?: CheckpointKind) {
+  return kind ? `sync:${leagueId}:${kind}:` : `sync:${leagueId}:`;
+}
+
+export async function getCheckpointedWeeks(leagueId: string, kind: CheckpointKind) {
+  const p = prefix(leagueId, kind);
+  const rows = await db.appMeta.findMany({
+    where: { key: { startsWith: p } },
+    select: { key: true },
+  });
+
+  const weeks = new Set<number>();
+  for (const r of rows) {
+    const week = Number(r.key.slice(p.length));
+    if (Number.isFinite(week)) weeks.add(week);
+  }
+  return weeks;
+}
+
+/**
+ * Record weeks as ingested (week -> rows ingested). Weeks in `quarantinedWeeks` are
+ * left without a checkpoint (an earlier one is removed).
+ * Pass the transaction client so checkpoints commit together with the data they describe.
+ */
+export async function markWeeksSynced(
+  leagueId: string,
+  kind: CheckpointKind,
+  weekCounts: Map<number, number>,
+  quarantinedWeeks: Set<number>,
+  client: Prisma.TransactionClient = db
+) {
+  if (weekCounts.size === 0) return;
+
+  const key = (week: number) => `${prefix(leagueId, kind)}${week}`;
+  const rows = Array.from(weekCounts.entries())
+    .filter(([week]) => !quarantinedWeeks.has(week))
+    .map(([week, count]) => ({ key: key(week), value: String(count) }));
+
+  await client.appMeta.deleteMany({
+    where: { key: { in: Array.from(weekCounts.keys()).map(key) } },
+  });
+  await client.appMeta.createMany({ data: rows });
+}
+
+export async function clearCheckpoints(leagueId: string) {
+  await db.appMeta.deleteMany({ where: { key: { startsWith: prefix(leagueId) } } });
+}
+
+/**
+ * Last week whose matchups/transactions can no longer change.
+ * - complete seasons: everything
+ * - in-season: weeks before the last scored one (one week of grace for stat corrections)
+ * - not started: nothing
+ */
+export function settledThroughWeek(league: {
+  status?: string;
+  settings?: { last_scored_leg?: number };
+}) {
+  if (league.status === "complete") return Number.POSITIVE_INFINITY;
+
+  const lastScored = Number(league.settings?.last_scored_leg ?? 0);
+  if (!Number.isFinite(lastScored) || lastScored <= 0) return -1;
+
+  return lastScored - 1;
+}
@@ -14,7 +14,7 @@ const globalForPrisma = globalThis as unknown as {
   pgPool?: Pool;
 };
 
-const pool =
+export const pool =
   globalForPrisma.pgPool ??
   new Pool({
     connectionString,
@@ -0,0 +1,21 @@
+import { db } from "@/lib/db";
+
+/**
+ * League ids of the stored previous_league_id chain, newest first.
+ * DB only: seasons that were never synced end the chain.
+ */
+export async function storedLeagueChain(rootLeagueId: string, maxDepth = 20) {
+  const ids: string[] = [];
+  let cur: string | null = rootLeagueId;
+
+  while (cur && ids.length < maxDepth && !ids.includes(cur)) {
+    ids.push(cur);
+    const row: { previousLeagueId: string | null } | null = await db.leagueSeason.findFirst({
+      where: { leagueId: cur },
+      select: { previousLeagueId: true },
+    });
+    cur = row?.previousLeagueId ?? null;
+  }
+
+  return ids;
+}
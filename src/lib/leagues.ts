@@ -0,0 +1,121 @@
+import { notFound } from "next/navigation";
+import { db } from "@/lib/db";
+import { getLeague } from "@/lib/sleeper";
+
+/*
+  League registry
+
+  One deployment can serve several dynasty leagues. Pages live under /l/<slug>/...
+  and league-scoped API routes under /api/l/<slug>/...
+
+  SLEEPER_LEAGUE_ID still works: with an empty registry it is registered as the
+  first league (by setup and sync, see seedLeagueRegistry), so single-league setups
+  keep working without any changes.
+*/
+
+export type LeagueEntry = { slug: string; name: string; rootLeagueId: string };
+
+const select = { slug: true, name: true, rootLeagueId: true } as const;
+
+export function slugify(name: string) {
+  const slug = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  return slug || "league";
+}
+
+async function uniqueSlug(base: string) {
+  const taken = new Set(
+    (await db.league.findMany({ where: { slug: { startsWith: base } }, select: { slug: true } })).map(
+      (l) => l.slug
+    )
+  );
+  if (!taken.has(base)) return base;
+
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+/**
+ * All registered leagues, oldest registration first (the first one is the default).
+ */
+export async function listLeagues(): Promise<LeagueEntry[]> {
+  return db.league.findMany({ select, orderBy: { createdAt: "asc" } });
+}
+
+/**
+ * Registers SLEEPER_LEAGUE_ID when the registry is empty. Called from setup and sync,
+ * never from page renders, so reads stay read-only.
+ */
+export async function seedLeagueRegistry(): Promise<void> {
+  const envLeagueId = process.env.SLEEPER_LEAGUE_ID;
+  if (!envLeagueId) return;
+  if ((await db.league.count()) > 0) return;
+
+  // Seed from the env without calling Sleeper: the name comes from a synced season if any
+  const season = await db.leagueSeason.findFirst({
+    where: { leagueId: envLeagueId },
+    select: { name: true },
+    orderBy: { season: "desc" },
+  });
+  const name = season?.name ?? "Dynasty League";
+
+  await db.league.upsert({
+    where: { rootLeagueId: envLeagueId },
+    update: {},
+    create: { rootLeagueId: envLeagueId, name, slug: slugify(name) },
+  });
+}
+
+export async function getDefaultLeague() {
+  return (await listLeagues())[0] ?? null;
+}
+
+export async function getLeagueBySlug(slug: string) {
+  return db.league.findUnique({ where: { slug }, select });
+}
+
+/**
+ * For /l/[slug] pages: the league, or a 404.
+ */
+export async function requireLeague(slug: string) {
+  const league = await getLeagueBySlug(slug);
+  if (!league) notFound();
+  return league;
+}
+
+/**
+ * Same path under the default league, e.g. for the pre-registry URLs (/h2h, /transactions...).
+ * Without any league that's the setup wizard.
+ */
+export async function defaultLeaguePath(path: string) {
+  const league = await getDefaultLeague();
+  return league ? `/l/${league.slug}${path}` : "/setup";
+}
+
+/**
+ * Registers (or renames) a league by its current Sleeper league id.
+ * The league must exist on Sleeper; name defaults to the Sleeper league name.
+ */
+export async function registerLeague(
+  rootLeagueId: string,
+  opts: { name?: string; slug?: string } = {}
+): Promise<LeagueEntry> {
+  const league = await getLeague(rootLeagueId);
+  const name = opts.name?.trim() || league.name || `League ${rootLeagueId}`;
+
+  const existing = await db.league.findUnique({ where: { rootLeagueId }, select });
+  if (existing) {
+    // A slug taken by another league gets a -2/-3... suffix, like on create
+    const wanted = opts.slug ? slugify(opts.slug) : existing.slug;
+    const slug = wanted === existing.slug ? wanted : await uniqueSlug(wanted);
+    return db.league.update({ where: { rootLeagueId }, data: { name, slug }, select });
+  }
+
+  const slug = await uniqueSlug(slugify(opts.slug || name));
+  return db.league.create({ data: { rootLeagueId, name, slug }, select });
+}
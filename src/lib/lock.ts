@@ -0,0 +1,39 @@
+import { pool } from "@/lib/db";
+
+/*
+  Postgres advisory locks
+
+  Session-level locks live on one connection, so a dedicated pg client is held
+  for the duration of fn(). Lock names are hashed with hashtext() into the bigint key.
+*/
+
+export type LockResult<T> = { acquired: true; value: T } | { acquired: false };
+
+/**
+ * Runs fn() only if nobody else holds the lock; never waits.
+ */
+export async function withAdvisoryLock<T>(name: string, fn: () => Promise<T>): Promise<LockResult<T>> {
+  const client = await pool.connect();
+  let releaseErr: Error | undefined;
+
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(
+      "SELECT pg_try_advisory_lock(hashtext($1)) AS locked",
+      [name]
+    );
+    if (!rows[0]?.locked) return { acquired: false };
+
+    try {
+      return { acquired: true, value: await fn() };
+    } finally {
+      try {
+        await client.query("SELECT pg_advisory_unlock(hashtext($1))", [name]);
+      } catch (e) {
+        // Destroy the connection instead of returning it to the pool: that drops the lock
+        releaseErr = e instanceof Error ? e : new Error(String(e));
+      }
+    }
+  } finally {
+    client.release(releaseErr);
+  }
+}
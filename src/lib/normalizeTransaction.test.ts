@@ -0,0 +1,113 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { normalizeTransaction, type NormalizedAsset } from "@/lib/normalizeTransaction";
+import { transactionSchema } from "@/lib/sleeperSchemas";
+
+/*
+  Fixtures are real Sleeper /transactions payloads with user, roster and transaction
+  ids replaced; player ids are kept (they're public Sleeper ids). Each one goes
+  through transactionSchema first, like in the league sync.
+*/
+
+function fixture(name: string) {
+  const raw = JSON.parse(
+    readFileSync(join(__dirname, "__fixtures__", "transactions", `${name}.json`), "utf8")
+  );
+  return transactionSchema.parse(raw);
+}
+
+const EMPTY: NormalizedAsset = {
+  kind: "player",
+  fromRosterId: null,
+  toRosterId: null,
+  playerId: null,
+  pickSeason: null,
+  pickRound: null,
+  pickOriginalRosterId: null,
+  faabAmount: null,
+};
+
+const player = (playerId: string, from: number | null, to: number): NormalizedAsset => ({
+  ...EMPTY,
+  playerId,
+  fromRosterId: from,
+  toRosterId: to,
+});
+
+const drop = (playerId: string, from: number): NormalizedAsset => ({
+  ...EMPTY,
+  kind: "player_drop",
+  playerId,
+  fromRosterId: from,
+});
+
+const pick = (season: number, round: number, original: number, from: number, to: number) => ({
+  ...EMPTY,
+  kind: "pick" as const,
+  pickSeason: season,
+  pickRound: round,
+  pickOriginalRosterId: original,
+  fromRosterId: from,
+  toRosterId: to,
+});
+
+const faab = (amount: number, from: number, to: number | null) => ({
+  ...EMPTY,
+  kind: "faab" as const,
+  faabAmount: amount,
+  fromRosterId: from,
+  toRosterId: to,
+});
+
+describe("normalizeTransaction", () => {
+  it("pairs adds and drops of a two-team trade and moves the pick", () => {
+    const n = normalizeTransaction(fixture("trade"));
+
+    expect(n).toMatchObject({ id: "900000000000000001", type: "trade", rosterIds: [1, 2] });
+    expect(n.waiverBid).toBeNull();
+    expect(n.assets).toEqual([player("4034", 1, 2), player("6794", 2, 1), pick(2024, 1, 2, 2, 1)]);
+  });
+
+  it("records the winning bid of a waiver claim as FAAB spent by the claimant", () => {
+    const n = normalizeTransaction(fixture("waiver"));
+
+    expect(n.waiverBid).toBe(37);
+    expect(n.assets).toEqual([player("8150", null, 3), drop("5947", 3), faab(37, 3, null)]);
+  });
+
+  it("keeps the bid of a failed waiver claim off the FAAB assets", () => {
+    const n = normalizeTransaction(fixture("waiver_failed"));
+
+    expect(n.status).toBe("failed");
+    expect(n.waiverBid).toBe(52);
+    expect(n.assets).toEqual([player("8150", null, 4), drop("7564", 4)]);
+  });
+
+  it("handles a free-agent add/drop without any FAAB", () => {
+    const n = normalizeTransaction(fixture("free_agent"));
+
+    expect(n.waiverBid).toBeNull();
+    expect(n.assets).toEqual([player("9221", null, 4), drop("7564", 4)]);
+  });
+
+  it("handles a commissioner move between rosters plus a release", () => {
+    const n = normalizeTransaction(fixture("commissioner"));
+
+    expect(n.type).toBe("commissioner");
+    expect(n.assets).toEqual([player("4866", 6, 5), drop("3321", 5)]);
+  });
+
+  it("handles a three-team trade with picks and FAAB, skipping FAAB sent to oneself", () => {
+    const n = normalizeTransaction(fixture("trade_three_team"));
+
+    expect(n.rosterIds).toEqual([7, 8, 9]);
+    expect(n.assets).toEqual([
+      player("6786", 7, 9),
+      player("7547", 9, 7),
+      pick(2025, 1, 7, 7, 8),
+      pick(2024, 3, 9, 8, 7),
+      faab(25, 9, 8),
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { SleeperTransaction } from "@/lib/sleeperSchemas";
+
+/*
+  Transaction normalizer
+
+  Turns one Sleeper transaction into the TransactionAsset movements we store.
+  Pure (no I/O) so every Sleeper shape can be reasoned about in isolation.
+
+  Shapes handled:
+    - trade (2 or more teams): adds/drops pair up per player; draft_picks and
+      waiver_budget (FAAB sent between teams) carry their own from/to
+    - waiver: adds + drops, winning bid in settings.waiver_bid
+    - free_agent: adds + drops, no bid
+    - commissioner: any mix of the above, applied by the commissioner
+
+  Kinds:
+    - player       player moved onto a roster (from = previous roster, if any)
+    - player_drop  player released by a roster without going to another one
+    - pick         draft pick moved between rosters
+    - faab         FAAB moved between rosters (trades) or bid on a claim (waivers; to = null);
+                   complete transactions only, a failed claim spends nothing
+*/
+
+export type AssetKind = "player" | "player_drop" | "pick" | "faab";
+
+export type NormalizedAsset = {
+  kind: AssetKind;
+  fromRosterId: number | null;
+  toRosterId: number | null;
+  playerId: string | null;
+  pickSeason: number | null;
+  pickRound: number | null;
+  pickOriginalRosterId: number | null;
+  faabAmount: number | null;
+};
+
+export type NormalizedTransaction = {
+  id: string;
+  type: string;
+  status: string;
+  rosterIds: number[];
+  waiverBid: number | null; // waivers only
+  assets: NormalizedAsset[];
+};
+
+const EMPTY: NormalizedAsset = {
+  kind: "player",
+  fromRosterId: null,
+  toRosterId: null,
+  playerId: null,
+  pickSeason: null,
+  pickRound: null,
+  pickOriginalRosterId: null,
+  faabAmount: null,
+};
+
+export function normalizeTransaction(t: SleeperTransaction): NormalizedTransaction {
+  const assets: NormalizedAsset[] = [
+    ...playerMovements(t),
+    ...pickMovements(t),
+    ...faabMovements(t),
+  ];
+
+  return {
+    id: t.transaction_id,
+    type: t.type,
+    status: t.status,
+    rosterIds: t.roster_ids ?? [],
+    waiverBid: waiverBidOf(t),
+    assets,
+  };
+}
+
+/**
+ * Winning (or, for failed claims, losing) FAAB bid of a waiver claim.
+ */
+export function waiverBidOf(t: SleeperTransaction): number | null {
+  if (t.type !== "waiver") return null;
+  const bid = t.settings?.waiver_bid;
+  return typeof bid === "number" && bid > 0 ? bid : null;
+}
+
+function playerMovements(t: SleeperTransaction): NormalizedAsset[] {
+  const adds = t.adds ?? {};
+  const drops = t.drops ?? {};
+  const out: NormalizedAsset[] = [];
+
+  for (const playerId of new Set([...Object.keys(adds), ...Object.keys(drops)])) {
+    const from = drops[playerId] ?? null;
+    const to = adds[playerId] ?? null;
+
+    // Added and dropped by the same roster in one move: nothing actually moved
+    if (from !== null && from === to) continue;
+
+    out.push({
+      ...EMPTY,
+      kind: to === null ? "player_drop" : "player",
+      playerId,
+      fromRosterId: from,
+      toRosterId: to,
+    });
+  }
+
+  return out;
+}
+
+function pickMovements(t: SleeperTransaction): NormalizedAsset[] {
+  return (t.draft_picks ?? []).map((p) => ({
+    ...EMPTY,
+    kind: "pick" as const,
+    pickSeason: Number(p.season),
+    pickRound: p.round,
+    pickOriginalRosterId: p.roster_id ?? null,
+    fromRosterId: p.previous_owner_id,
+    toRosterId: p.owner_id,
+  }));
+}
+
+function faabMovements(t: SleeperTransaction): NormalizedAsset[] {
+  if (t.status !== "complete") return [];
+
+  // FAAB traded between teams
+  const sent: NormalizedAsset[] = (t.waiver_budget ?? [])
+    .filter((b) => b.amount > 0 && b.sender !== b.receiver)
+    .map((b) => ({
+      ...EMPTY,
+      kind: "faab" as const,
+      fromRosterId: b.sender,
+      toRosterId: b.receiver,
+      faabAmount: b.amount,
+    }));
+
+  // Waiver bid: spent by the claiming roster, goes to nobody
+  const bid = waiverBidOf(t);
+  const claimant = Object.values(t.adds ?? {})[0] ?? t.roster_ids?.[0] ?? null;
+  if (bid !== null && claimant !== null) {
+    sent.push({ ...EMPTY, kind: "faab", fromRosterId: claimant, faabAmount: bid });
+  }
+
+  return sent;
+}
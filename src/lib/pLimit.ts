@@ -0,0 +1,28 @@
+/**
+ * Simple concurrency limiter (no deps).
+ */
+export function pLimit(concurrency: number) {
+  let activeCount = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    activeCount--;
+    const run = queue.shift();
+    if (run) run();
+  };
+
+  return function limit<T>(fn: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const run = () => {
+        activeCount++;
+        fn()
+          .then(resolve)
+          .catch(reject)
+          .finally(next);
+      };
+
+      if (activeCount < concurrency) run();
+      else queue.push(run);
+    });
+  };
+}
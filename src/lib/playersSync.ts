@@ -0,0 +1,227 @@
+import { db } from "@/lib/db";
+import { quarantineRecords } from "@/lib/quarantine";
+import { getAllNflPlayers } from "@/lib/sleeper";
+import { nflPlayerSchema, validateEach, type SleeperNflPlayer } from "@/lib/sleeperSchemas";
+import { failSyncRun, finishSyncRun, recordSyncProgress, startSyncRun } from "@/lib/syncRuns";
+import { refreshViewsForPlayers } from "@/lib/transactionReadModel";
+
+/*
+  Players sync
+
+  Refreshes SleeperPlayer from Sleeper's full NFL players dictionary.
+  Shared by /api/players/sync and the scheduled /api/cron/sync.
+
+  Diffs against the stored rows: new players are bulk-inserted, unchanged ones are
+  skipped, and changed ones are updated. Changes to the TRACKED fields append a
+  PlayerChange row (the player news feed), written in the same DB transaction.
+
+  A TRACKED field is logged once its AppMeta flag (players:logged:<field>) exists. The
+  run that finds the flag missing fills the column in without logging (a newly added
+  column would otherwise flood the feed) and then sets the flag.
+*/
+
+type PlayerRow = {
+  id: string;
+  fullName: string | null;
+  position: string | null;
+  team: string | null;
+  status: string | null;
+  injuryStatus: string | null;
+  age: number | null;
+  birthDate: string | null;
+  yearsExp: number | null;
+  college: string | null;
+  height: string | null;
+  weight: string | null;
+  depthChartPosition: string | null;
+  depthChartOrder: number | null;
+  fantasyPositions: string[];
+  searchRank: number | null;
+};
+
+const TRACKED = ["team", "status", "position", "injuryStatus"] as const;
+type TrackedField = (typeof TRACKED)[number];
+
+const loggedFlag = (field: TrackedField) => `players:logged:${field}`;
+const COMPARED = [
+  "fullName",
+  ...TRACKED,
+  "age",
+  "birthDate",
+  "yearsExp",
+  "college",
+  "height",
+  "weight",
+  "depthChartPosition",
+  "depthChartOrder",
+  "fantasyPositions",
+  "searchRank",
+] as const;
+
+// Fields that show up in transaction labels
+const LABELED = ["fullName", "position", "team"] as const;
+
+const BATCH = 500;
+
+export type PlayersSyncResult =
+  | ({ ok: true; runId: string } & Record<string, number | string | boolean>)
+  | { ok: false; runId: string | null; error: string };
+
+function int(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) ? Math.trunc(v) : null;
+}
+
+function str(v: unknown) {
+  if (typeof v === "number") return String(v);
+  return typeof v === "string" && v.length > 0 ? v : null;
+}
+
+function toRow(id: string, p: SleeperNflPlayer): PlayerRow {
+  return {
+    id,
+    fullName: p.full_name ?? null,
+    position: p.position ?? null,
+    team: p.team ?? null,
+    status: p.status ?? null,
+    injuryStatus: p.injury_status ?? null,
+    age: int(p.age),
+    birthDate: str(p.birth_date),
+    yearsExp: int(p.years_exp),
+    college: str(p.college),
+    height: str(p.height),
+    weight: str(p.weight),
+    depthChartPosition: str(p.depth_chart_position),
+    depthChartOrder: int(p.depth_chart_order),
+    fantasyPositions: Array.isArray(p.fantasy_positions) ? p.fantasy_positions : [],
+    searchRank: int(p.search_rank),
+  };
+}
+
+function sameValue(a: PlayerRow[keyof PlayerRow], b: PlayerRow[keyof PlayerRow]) {
+  if (Array.isArray(a) && Array.isArray(b)) return a.join(",") === b.join(",");
+  return a === b;
+}
+
+export async function syncPlayers(opts: { trigger?: string } = {}): Promise<PlayersSyncResult> {
+  let runId: string | null = null;
+  const counts = {
+    fetched: 0,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    changesLogged: 0,
+    quarantined: 0,
+    transactionViews: 0,
+  };
+
+  try {
+    runId = await startSyncRun("players", opts.trigger ?? "manual");
+
+    // Fetch Sleeper players (big object keyed by player_id)
+    const all = await getAllNflPlayers();
+
+    // The dictionary key is the player id; copied in so quarantined records keep it
+    const players = validateEach(
+      nflPlayerSchema,
+      Object.entries(all ?? {}).map(([id, p]) =>
+        p && typeof p === "object" ? { ...p, player_id: id } : p
+      )
+    );
+    counts.quarantined = await quarantineRecords(
+      { syncRunId: runId, leagueId: null },
+      "player",
+      players.invalid
+    );
+
+    const rows = players.valid.map((p) => toRow(p.player_id ?? "", p)).filter((r) => r.id);
+    counts.fetched = rows.length + players.invalid.length;
+
+    const stored = await db.sleeperPlayer.findMany({
+      select: Object.fromEntries(["id", ...COMPARED].map((f) => [f, true])) as Record<
+        keyof PlayerRow,
+        true
+      >,
+    });
+    const storedById = new Map<string, PlayerRow>(stored.map((r) => [r.id, r]));
+
+    const flags = await db.appMeta.findMany({
+      where: { key: { in: TRACKED.map(loggedFlag) } },
+      select: { key: true },
+    });
+    const flagged = new Set(flags.map((f) => f.key));
+    const logged = TRACKED.filter((f) => flagged.has(loggedFlag(f)));
+    const backfilled = TRACKED.filter((f) => !flagged.has(loggedFlag(f)));
+
+    const created: PlayerRow[] = [];
+    const changed: { row: PlayerRow; prev: PlayerRow }[] = [];
+
+    for (const row of rows) {
+      const prev = storedById.get(row.id);
+      if (!prev) created.push(row);
+      else if (COMPARED.some((f) => !sameValue(prev[f], row[f]))) changed.push({ row, prev });
+      else counts.unchanged++;
+    }
+
+    // ---------------- NEW PLAYERS ----------------
+    // No change-log entries: there's nothing to compare against
+    for (let i = 0; i < created.length; i += BATCH) {
+      const res = await db.sleeperPlayer.createMany({
+        data: created.slice(i, i + BATCH),
+        skipDuplicates: true,
+      });
+      counts.created += res.count;
+    }
+    await recordSyncProgress(runId, counts);
+
+    // ---------------- CHANGED PLAYERS ----------------
+    for (let i = 0; i < changed.length; i += BATCH) {
+      const batch = changed.slice(i, i + BATCH);
+
+      const changes = batch.flatMap(({ row, prev }) =>
+        logged.filter((f) => prev[f] !== row[f]).map((field) => ({
+          playerId: row.id,
+          field,
+          fromValue: prev[field],
+          toValue: row[field],
+          syncRunId: runId,
+        }))
+      );
+
+      await db.$transaction([
+        ...batch.map(({ row }) => {
+          const { id, ...data } = row;
+          return db.sleeperPlayer.update({ where: { id }, data });
+        }),
+        db.playerChange.createMany({ data: changes }),
+      ]);
+
+      counts.updated += batch.length;
+      counts.changesLogged += changes.length;
+      await recordSyncProgress(runId, counts);
+    }
+
+    // Transaction views carry "Name (POS, TEAM)" labels; new players replace "Player <id>"
+    const relabeled = [
+      ...created.map((r) => r.id),
+      ...changed
+        .filter(({ row, prev }) => LABELED.some((f) => prev[f] !== row[f]))
+        .map(({ row }) => row.id),
+    ];
+    counts.transactionViews = await refreshViewsForPlayers(relabeled);
+
+    // Every row has been written: from the next run on these fields are logged too
+    if (backfilled.length > 0) {
+      await db.appMeta.createMany({
+        data: backfilled.map((f) => ({ key: loggedFlag(f), value: runId })),
+        skipDuplicates: true,
+      });
+    }
+
+    await finishSyncRun(runId, counts);
+
+    return { ok: true, runId, ...counts };
+  } catch (e) {
+    await failSyncRun(runId, e, counts);
+    return { ok: false, runId, error: e instanceof Error ? e.message : String(e) };
+  }
+}
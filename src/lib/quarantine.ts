@@ -0,0 +1,60 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+/*
+  Quarantine for Sleeper records that fail schema validation.
+  Stored verbatim so they can be inspected (and re-synced once the schema is fixed).
+*/
+
+export type QuarantineKind =
+  | "user"
+  | "roster"
+  | "matchup"
+  | "transaction"
+  | "draft"
+  | "draft_pick"
+  | "traded_pick"
+  | "player";
+
+const KEY_FIELDS: Record<QuarantineKind, string> = {
+  user: "user_id",
+  roster: "roster_id",
+  matchup: "roster_id",
+  transaction: "transaction_id",
+  draft: "draft_id",
+  draft_pick: "pick_no",
+  traded_pick: "roster_id",
+  player: "player_id",
+};
+
+function recordKeyOf(kind: QuarantineKind, raw: unknown) {
+  if (!raw || typeof raw !== "object") return null;
+  const v = (raw as Record<string, unknown>)[KEY_FIELDS[kind]];
+  return typeof v === "string" || typeof v === "number" ? String(v) : null;
+}
+
+/**
+ * Returns the number of records quarantined.
+ */
+export async function quarantineRecords(
+  ctx: { syncRunId: string | null; leagueId: string | null; season?: number; week?: number },
+  kind: QuarantineKind,
+  invalid: { raw: unknown; error: string }[]
+) {
+  if (invalid.length === 0) return 0;
+
+  await db.quarantinedRecord.createMany({
+    data: invalid.map((r) => ({
+      syncRunId: ctx.syncRunId,
+      leagueId: ctx.leagueId,
+      season: ctx.season ?? null,
+      week: ctx.week ?? null,
+      kind,
+      recordKey: recordKeyOf(kind, r.raw),
+      rawJson: r.raw === null || r.raw === undefined ? Prisma.JsonNull : (r.raw as Prisma.InputJsonValue),
+      error: r.error,
+    })),
+  });
+
+  return invalid.length;
+}
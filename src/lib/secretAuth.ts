@@ -0,0 +1,17 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * True when the request carries `Authorization: Bearer <secret>`.
+ * A missing/empty secret never authorizes anything.
+ */
+export function hasBearerSecret(req: Request, secret: string | undefined) {
+  if (!secret) return false;
+
+  const header = req.headers.get("authorization") ?? "";
+  const m = header.match(/^Bearer\s+(.+)$/i);
+  if (!m) return false;
+
+  const given = Buffer.from(m[1].trim());
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
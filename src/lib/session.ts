@@ -0,0 +1,18 @@
+import { getServerSession } from "next-auth";
+
+/*
+  Signed-in user for route handlers
+
+  @/auth is imported lazily, like in the next-auth route, so the build never
+  evaluates the NextAuth config.
+*/
+
+/**
+ * AppUser id of the signed-in user, or null when signed out.
+ */
+export async function currentAppUserId(): Promise<string | null> {
+  const { authOptions } = await import("@/auth");
+  const session = await getServerSession(authOptions);
+  const id = (session?.user as { id?: unknown } | undefined)?.id;
+  return typeof id === "string" ? id : null;
+}
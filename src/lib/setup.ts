@@ -0,0 +1,88 @@
+import { findLeague, getNflState, getUser, getUserLeagues, getUsers } from "@/lib/sleeper";
+import { leagueSchema, userSchema, validateEach, type SleeperLeague } from "@/lib/sleeperSchemas";
+
+/*
+  First-run setup helpers (used by /setup)
+
+  Read-only: everything here asks Sleeper and nothing is stored. Registering the
+  league and syncing it go through /api/leagues and the sync routes. Malformed records
+  are just left out of the preview (the sync quarantines them).
+*/
+
+export type ChainSeasonPreview = {
+  leagueId: string;
+  season: string;
+  name: string | null;
+  status: string | null;
+  teams: number | null;
+  managers: string[];
+};
+
+export type UserLeagueOption = {
+  leagueId: string;
+  name: string | null;
+  season: string;
+  teams: number | null;
+};
+
+/**
+ * Walks previous_league_id from the given (current) league id, newest -> oldest,
+ * with each season's team count and managers. Null when Sleeper doesn't know the id.
+ */
+export async function previewLeagueChain(
+  startLeagueId: string,
+  maxDepth = 15
+): Promise<ChainSeasonPreview[] | null> {
+  const chain: ChainSeasonPreview[] = [];
+  const seen = new Set<string>();
+  let current: string | null = startLeagueId;
+
+  for (let i = 0; i < maxDepth && current; i++) {
+    if (seen.has(current)) break;
+    seen.add(current);
+
+    const meta: SleeperLeague | null = await findLeague(current);
+    if (!meta) {
+      if (chain.length === 0) return null;
+      break;
+    }
+    const users = validateEach(userSchema, await getUsers(current)).valid;
+
+    chain.push({
+      leagueId: meta.league_id,
+      season: meta.season,
+      name: meta.name ?? null,
+      status: meta.status ?? null,
+      teams: meta.settings?.num_teams ?? null,
+      managers: users.map((u) => u.display_name ?? u.username ?? u.user_id),
+    });
+
+    current = meta.previous_league_id ?? null;
+  }
+
+  return chain;
+}
+
+/**
+ * The NFL leagues a Sleeper user is in this season (the ids to start a chain from).
+ * Throws when the username doesn't exist.
+ */
+export async function findUserLeagues(username: string) {
+  const user = await getUser(username);
+  if (!user) throw new Error(`Sleeper user "${username}" not found`);
+
+  const { season } = await getNflState();
+  const leagues = validateEach(leagueSchema, await getUserLeagues(user.user_id, season)).valid;
+
+  const options: UserLeagueOption[] = leagues.map((l) => ({
+    leagueId: l.league_id,
+    name: l.name ?? null,
+    season: l.season,
+    teams: l.settings?.num_teams ?? null,
+  }));
+
+  return {
+    user: { userId: user.user_id, displayName: user.display_name ?? user.username ?? user.user_id },
+    leagues: options,
+  };
+}
@@ -3,28 +3,136 @@
 
   Everything that talks to the Sleeper REST API lives here.
   Keep this file "dumb" and reusable.
+
+  Response shapes are the zod schemas in lib/sleeperSchemas.ts. List endpoints (and
+  drafts, the players dictionary) are returned unvalidated as unknown: callers validate
+  per record (see validateEach), so only validated records carry the Sleeper types.
+*/
+
+import {
+  leagueSchema,
+  nflStateSchema,
+  userSchema,
+  type SleeperLeague,
+  type SleeperNflState,
+  type SleeperUser,
+} from "@/lib/sleeperSchemas";
+
+// Override with SLEEPER_API_BASE to point at a local fixture server during development
+const BASE = (process.env.SLEEPER_API_BASE ?? "https://api.sleeper.app/v1").replace(/\/+$/, "");
+
+// Sleeper asks clients to stay under 1000 calls/minute; keep headroom by default
+const REQUESTS_PER_MINUTE = positiveInt(process.env.SLEEPER_REQUESTS_PER_MINUTE, 600);
+const MAX_RETRIES = positiveInt(process.env.SLEEPER_MAX_RETRIES, 4);
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 15_000;
+
+function positiveInt(v: string | undefined, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+/*
+  ---------------------------------------
+  Errors
+  ---------------------------------------
 */
 
-const BASE = "https://api.sleeper.app/v1";
+export class SleeperApiError extends Error {
+  readonly status: number; // 0 = network failure (no response)
+  readonly path: string;
+  readonly body: string;
+  readonly retryable: boolean;
+
+  constructor(opts: { status: number; path: string; body: string; cause?: unknown }) {
+    super(`Sleeper API error ${opts.status || "network"} on ${opts.path}: ${opts.body}`, {
+      cause: opts.cause,
+    });
+    this.name = "SleeperApiError";
+    this.status = opts.status;
+    this.path = opts.path;
+    this.body = opts.body;
+    this.retryable = opts.status === 0 || opts.status === 429 || opts.status >= 500;
+  }
+}
+
+/*
+  ---------------------------------------
+  Rate limiting
+  (sliding one-minute window shared by every route in this process)
+  ---------------------------------------
+*/
+
+const globalForSleeper = globalThis as unknown as { sleeperRequestLog?: number[] };
+const requestLog = globalForSleeper.sleeperRequestLog ?? [];
+if (process.env.NODE_ENV !== "production") globalForSleeper.sleeperRequestLog = requestLog;
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+async function acquireSlot() {
+  for (;;) {
+    const now = Date.now();
+    while (requestLog.length && now - requestLog[0] >= 60_000) requestLog.shift();
+
+    if (requestLog.length < REQUESTS_PER_MINUTE) {
+      requestLog.push(now);
+      return;
+    }
+
+    await sleep(60_000 - (now - requestLog[0]) + 5);
+  }
+}
 
 /*
   ---------------------------------------
   Generic fetch helper
+  (every call is an idempotent GET, so transient failures are retried)
   ---------------------------------------
 */
 
-async function getJson<T>(path: string): Promise<T> {
-  const res = await fetch(`${BASE}${path}`, {
-    // Next.js server routes should not cache Sleeper data
-    cache: "no-store",
-  });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Sleeper API error ${res.status}: ${text}`);
+function backoffMs(attempt: number, retryAfter: string | null) {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_DELAY_MS);
   }
 
-  return res.json();
+  // exponential backoff with full jitter
+  const ceiling = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  return Math.round(Math.random() * ceiling);
+}
+
+async function getJson<T>(path: string): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot();
+
+    let err: SleeperApiError;
+    let retryAfter: string | null = null;
+
+    try {
+      const res = await fetch(`${BASE}${path}`, {
+        // Next.js server routes should not cache Sleeper data
+        cache: "no-store",
+      });
+
+      if (res.ok) return (await res.json()) as T;
+
+      retryAfter = res.headers.get("retry-after");
+      err = new SleeperApiError({ status: res.status, path, body: await res.text() });
+    } catch (e) {
+      if (e instanceof SleeperApiError) throw e;
+      err = new SleeperApiError({
+        status: 0,
+        path,
+        body: e instanceof Error ? e.message : String(e),
+        cause: e,
+      });
+    }
+
+    if (!err.retryable || attempt >= MAX_RETRIES) throw err;
+    await sleep(backoffMs(attempt, retryAfter));
+  }
 }
 
 /*
@@ -33,16 +141,26 @@ async function getJson<T>(path: string): Promise<T> {
   ---------------------------------------
 */
 
-export async function getLeague(leagueId: string) {
-  // Contains season + previous_league_id (used for history chaining)
-  return getJson<{
-    league_id: string;
-    season: string;
-    previous_league_id: string | null;
-    settings?: {
-      playoff_week_start?: number;
-    };
-  }>(`/league/${leagueId}`);
+export async function getLeague(leagueId: string): Promise<SleeperLeague> {
+  // Contains season + previous_league_id (used for history chaining).
+  // Everything downstream depends on it, so it is validated here and throws if malformed.
+  return leagueSchema.parse(await getJson<unknown>(`/league/${leagueId}`));
+}
+
+export async function findLeague(leagueId: string): Promise<SleeperLeague | null> {
+  // Sleeper answers 200 + null for unknown league ids (e.g. typed in the setup wizard)
+  const body = await getJson<unknown>(`/league/${encodeURIComponent(leagueId)}`);
+  return body === null ? null : leagueSchema.parse(body);
+}
+
+/*
+  ---------------------------------------
+  NFL state (current season + week)
+  ---------------------------------------
+*/
+
+export async function getNflState(): Promise<SleeperNflState> {
+  return nflStateSchema.parse(await getJson<unknown>(`/state/nfl`));
 }
 
 /*
@@ -52,13 +170,23 @@ export async function getLeague(leagueId: string) {
 */
 
 export async function getUsers(leagueId: string) {
-  return getJson<
-    Array<{
-      user_id: string;
-      username?: string;
-      display_name?: string;
-    }>
-  >(`/league/${leagueId}/users`);
+  return getJson<unknown[]>(`/league/${leagueId}/users`);
+}
+
+/*
+  ---------------------------------------
+  Sleeper accounts (by username or user id)
+  ---------------------------------------
+*/
+
+export async function getUser(usernameOrId: string): Promise<SleeperUser | null> {
+  // Sleeper answers 200 + null for unknown users
+  const body = await getJson<unknown>(`/user/${encodeURIComponent(usernameOrId)}`);
+  return body === null ? null : userSchema.parse(body);
+}
+
+export async function getUserLeagues(userId: string, season: string | number) {
+  return getJson<unknown[]>(`/user/${userId}/leagues/nfl/${season}`);
 }
 
 /*
@@ -68,12 +196,7 @@ export async function getUsers(leagueId: string) {
 */
 
 export async function getRosters(leagueId: string) {
-  return getJson<
-    Array<{
-      roster_id: number;
-      owner_id: string | null;
-    }>
-  >(`/league/${leagueId}/rosters`);
+  return getJson<unknown[]>(`/league/${leagueId}/rosters`);
 }
 
 /*
@@ -83,13 +206,7 @@ export async function getRosters(leagueId: string) {
 */
 
 export async function getMatchups(leagueId: string, week: number) {
-  return getJson<
-    Array<{
-      roster_id: number;
-      matchup_id: number | null;
-      points: number;
-    }>
-  >(`/league/${leagueId}/matchups/${week}`);
+  return getJson<unknown[]>(`/league/${leagueId}/matchups/${week}`);
 }
 
 /*
@@ -99,29 +216,17 @@ export async function getMatchups(leagueId: string, week: number) {
 */
 
 export async function getTransactions(leagueId: string, week: number) {
-  return getJson<
-    Array<{
-      transaction_id: string;
-      type: string;
-      status: string;
-      created: number;
-
-      adds?: Record<string, number>;
-      drops?: Record<string, number>;
+  return getJson<unknown[]>(`/league/${leagueId}/transactions/${week}`);
+}
 
-      draft_picks?: Array<{
-        season: number;
-        round: number;
-        owner_id: number | null;
-        previous_owner_id: number | null;
-        roster_id?: number | null; // original roster slot (often present in Sleeper tx payloads)
-      }>;
+/*
+  ---------------------------------------
+  Traded picks (current + future seasons)
+  ---------------------------------------
+*/
 
-      settings?: {
-        waiver_budget?: number;
-      };
-    }>
-  >(`/league/${leagueId}/transactions/${week}`);
+export async function getTradedPicks(leagueId: string) {
+  return getJson<unknown[]>(`/league/${leagueId}/traded_picks`);
 }
 
 /*
@@ -131,14 +236,7 @@ export async function getTransactions(leagueId: string, week: number) {
 */
 
 export async function getLeagueDrafts(leagueId: string) {
-  return getJson<
-    Array<{
-      draft_id: string;
-      season: string | number;
-      type?: string;
-      status?: string;
-    }>
-  >(`/league/${leagueId}/drafts`);
+  return getJson<unknown[]>(`/league/${leagueId}/drafts`);
 }
 
 /*
@@ -148,14 +246,7 @@ export async function getLeagueDrafts(leagueId: string) {
 */
 
 export async function getDraft(draftId: string) {
-  return getJson<{
-    draft_id: string;
-    season: string | number;
-    status?: string;
-    type?: string;
-    // draft_order: { [roster_id: number]: slot(1..N) }
-    draft_order?: Record<string, number>;
-  }>(`/draft/${draftId}`);
+  return getJson<unknown>(`/draft/${draftId}`);
 }
 
 /*
@@ -165,14 +256,7 @@ export async function getDraft(draftId: string) {
 */
 
 export async function getDraftPicks(draftId: string) {
-  return getJson<
-    Array<{
-      round: number;
-      roster_id: number | null;
-      player_id: string | null;
-      pick_no?: number; // often present
-    }>
-  >(`/draft/${draftId}/picks`);
+  return getJson<unknown[]>(`/draft/${draftId}/picks`);
 }
 
 /*
@@ -183,5 +267,5 @@ export async function getDraftPicks(draftId: string) {
 */
 
 export async function getAllNflPlayers() {
-  return getJson<Record<string, any>>(`/players/nfl`);
+  return getJson<Record<string, unknown>>(`/players/nfl`);
 }
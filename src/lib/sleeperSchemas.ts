@@ -0,0 +1,264 @@
+import { z } from "zod";
+
+/*
+  Zod schemas for the Sleeper endpoints wrapped by lib/sleeper.ts
+
+  Objects are "loose" and nothing is transformed: parsed data is exactly what
+  Sleeper sent, so it can be stored as rawJson. Only the fields we read are validated.
+*/
+
+const idLike = z.union([z.string(), z.number()]);
+const intLike = z.union([z.number().int(), z.string().regex(/^\d+$/)]);
+
+/*
+  ---------------------------------------
+  League
+  ---------------------------------------
+*/
+
+export const leagueSchema = z.looseObject({
+  league_id: z.string(),
+  season: z.string(),
+  previous_league_id: z.string().nullish(),
+  status: z.string().optional(), // pre_draft | drafting | in_season | complete
+  name: z.string().nullish(),
+  avatar: z.string().nullish(),
+  roster_positions: z.array(z.string()).nullish(),
+  scoring_settings: z.record(z.string(), z.number()).nullish(),
+  settings: z
+    .looseObject({
+      num_teams: z.number().optional(),
+      start_week: z.number().optional(),
+      playoff_week_start: z.number().optional(), // 0 = no playoffs
+      playoff_teams: z.number().optional(),
+      playoff_round_type: z.number().optional(), // 0 = 1 week/round, 1 = 2-week final, 2 = 2 weeks/round
+      playoff_type: z.number().optional(),
+      leg: z.number().optional(), // current week
+      last_scored_leg: z.number().optional(),
+      last_report: z.number().optional(),
+      trade_deadline: z.number().optional(),
+      waiver_type: z.number().optional(), // 0 = rolling, 1 = reverse standings, 2 = FAAB
+      waiver_budget: z.number().optional(),
+      taxi_slots: z.number().optional(),
+      reserve_slots: z.number().optional(),
+    })
+    .optional(),
+});
+
+/*
+  ---------------------------------------
+  NFL state (current season / week)
+  ---------------------------------------
+*/
+
+export const nflStateSchema = z.looseObject({
+  season: z.string(),
+  season_type: z.string(), // pre | regular | post | off
+  week: z.number(),
+  leg: z.number().optional(),
+  display_week: z.number().optional(),
+});
+
+/*
+  ---------------------------------------
+  Users / rosters / matchups
+  ---------------------------------------
+*/
+
+export const userSchema = z.looseObject({
+  user_id: z.string(),
+  username: z.string().nullish(),
+  display_name: z.string().nullish(),
+  avatar: z.string().nullish(),
+});
+
+const playerIds = z.array(z.string()).nullish();
+
+export const rosterSchema = z.looseObject({
+  roster_id: z.number().int(),
+  owner_id: z.string().nullable(),
+  players: playerIds,
+  starters: playerIds, // slot order; "0" = empty slot
+  reserve: playerIds, // IR
+  taxi: playerIds,
+  settings: z
+    .looseObject({
+      wins: z.number().optional(),
+      losses: z.number().optional(),
+      ties: z.number().optional(),
+      fpts: z.number().optional(),
+      fpts_decimal: z.number().optional(), // hundredths of fpts
+      fpts_against: z.number().optional(),
+      fpts_against_decimal: z.number().optional(),
+      waiver_budget_used: z.number().optional(),
+    })
+    .nullish(),
+});
+
+export const matchupSchema = z.looseObject({
+  roster_id: z.number().int(),
+  matchup_id: z.number().int().nullable(),
+  points: z.number().nullish(),
+  players: playerIds,
+  starters: playerIds, // slot order; "0" = empty slot
+  starters_points: z.array(z.number()).nullish(), // parallel to starters
+  players_points: z.record(z.string(), z.number()).nullish(),
+});
+
+/*
+  ---------------------------------------
+  Transactions
+  ---------------------------------------
+*/
+
+export const transactionSchema = z.looseObject({
+  transaction_id: z.string(),
+  type: z.string(),
+  status: z.string(),
+  created: z.number(),
+  status_updated: z.number().nullish(),
+  leg: z.number().nullish(),
+
+  roster_ids: z.array(z.number().int()).nullish(),
+  adds: z.record(z.string(), z.number().int()).nullish(),
+  drops: z.record(z.string(), z.number().int()).nullish(),
+
+  draft_picks: z
+    .array(
+      z.looseObject({
+        season: intLike,
+        round: z.number().int(),
+        owner_id: z.number().int().nullable(),
+        previous_owner_id: z.number().int().nullable(),
+        roster_id: z.number().int().nullish(), // original roster slot (often present in Sleeper tx payloads)
+      })
+    )
+    .nullish(),
+
+  waiver_budget: z
+    .array(
+      z.looseObject({
+        sender: z.number().int(),
+        receiver: z.number().int(),
+        amount: z.number().int(),
+      })
+    )
+    .nullish(),
+
+  settings: z
+    .looseObject({
+      waiver_bid: z.number().optional(),
+    })
+    .nullish(),
+});
+
+/*
+  ---------------------------------------
+  Traded picks (current owner of every traded pick)
+  ---------------------------------------
+*/
+
+export const tradedPickSchema = z.looseObject({
+  season: intLike,
+  round: z.number().int(),
+  roster_id: z.number().int(), // original owner
+  owner_id: z.number().int(), // current owner
+  previous_owner_id: z.number().int().nullish(),
+});
+
+/*
+  ---------------------------------------
+  Drafts
+  ---------------------------------------
+*/
+
+export const draftSummarySchema = z.looseObject({
+  draft_id: z.string(),
+  season: idLike,
+  type: z.string().optional(),
+  status: z.string().optional(),
+});
+
+export const draftSchema = draftSummarySchema.extend({
+  start_time: z.number().nullish(),
+  settings: z.looseObject({ rounds: z.number().int().optional() }).nullish(),
+  // draft_order: { [user_id]: slot(1..N) }
+  draft_order: z.record(z.string(), z.number()).nullish(),
+  // slot_to_roster_id: { [slot]: roster_id }
+  slot_to_roster_id: z.record(z.string(), z.number().int().nullable()).nullish(),
+});
+
+export const draftPickSchema = z.looseObject({
+  round: z.number().int(),
+  roster_id: z.number().int().nullable(),
+  player_id: z.string().nullable(),
+  pick_no: z.number().int().optional(),
+  draft_slot: z.number().int().nullish(),
+  picked_by: z.string().nullish(),
+  is_keeper: z.boolean().nullish(),
+});
+
+/*
+  ---------------------------------------
+  Players dictionary (values only; keyed by player_id)
+  ---------------------------------------
+*/
+
+// Sleeper sends some measurements as strings for one player and numbers for another
+const stringOrNumber = z.union([z.string(), z.number()]);
+
+export const nflPlayerSchema = z.looseObject({
+  player_id: z.string().optional(),
+  full_name: z.string().nullish(),
+  position: z.string().nullish(),
+  team: z.string().nullish(),
+  status: z.string().nullish(),
+  injury_status: z.string().nullish(),
+  age: z.number().nullish(),
+  birth_date: z.string().nullish(),
+  years_exp: z.number().nullish(),
+  college: z.string().nullish(),
+  height: stringOrNumber.nullish(),
+  weight: stringOrNumber.nullish(),
+  depth_chart_position: stringOrNumber.nullish(),
+  depth_chart_order: z.number().nullish(),
+  fantasy_positions: z.array(z.string()).nullish(),
+  search_rank: z.number().nullish(),
+});
+
+export type SleeperLeague = z.infer<typeof leagueSchema>;
+export type SleeperLeagueSettings = NonNullable<SleeperLeague["settings"]>;
+export type SleeperNflState = z.infer<typeof nflStateSchema>;
+export type SleeperUser = z.infer<typeof userSchema>;
+export type SleeperRoster = z.infer<typeof rosterSchema>;
+export type SleeperMatchup = z.infer<typeof matchupSchema>;
+export type SleeperTransaction = z.infer<typeof transactionSchema>;
+export type SleeperTradedPick = z.infer<typeof tradedPickSchema>;
+export type SleeperDraftSummary = z.infer<typeof draftSummarySchema>;
+export type SleeperDraft = z.infer<typeof draftSchema>;
+export type SleeperDraftPick = z.infer<typeof draftPickSchema>;
+export type SleeperNflPlayer = z.infer<typeof nflPlayerSchema>;
+
+/**
+ * Validate each element independently so one malformed record
+ * doesn't take the rest of the payload down with it.
+ */
+export function validateEach<S extends z.ZodType>(schema: S, rows: unknown) {
+  const valid: z.infer<S>[] = [];
+  const invalid: { raw: unknown; error: string }[] = [];
+
+  if (!Array.isArray(rows)) {
+    if (rows !== null && rows !== undefined) {
+      invalid.push({ raw: rows, error: "Expected an array" });
+    }
+    return { valid, invalid };
+  }
+
+  for (const raw of rows) {
+    const parsed = schema.safeParse(raw);
+    if (parsed.success) valid.push(parsed.data);
+    else invalid.push({ raw, error: z.prettifyError(parsed.error) });
+  }
+
+  return { valid, invalid };
+}
@@ -0,0 +1,795 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import {
+  getLeague,
+  getUsers,
+  getRosters,
+  getMatchups,
+  getTransactions,
+  getNflState,
+  getLeagueDrafts,
+  getDraft,
+  getDraftPicks,
+  getTradedPicks,
+} from "@/lib/sleeper";
+import { normalizeTransaction } from "@/lib/normalizeTransaction";
+import { quarantineRecords } from "@/lib/quarantine";
+import {
+  draftPickSchema,
+  draftSchema,
+  draftSummarySchema,
+  matchupSchema,
+  rosterSchema,
+  tradedPickSchema,
+  transactionSchema,
+  userSchema,
+  validateEach,
+  type SleeperDraft,
+  type SleeperDraftPick,
+  type SleeperLeague,
+  type SleeperMatchup,
+  type SleeperRoster,
+  type SleeperTransaction,
+} from "@/lib/sleeperSchemas";
+import { computeSeasonWeeks } from "@/lib/weeks";
+import { withAdvisoryLock } from "@/lib/lock";
+import { pLimit } from "@/lib/pLimit";
+import { refreshViewsForSeason } from "@/lib/transactionReadModel";
+import { failSyncRun, finishSyncRun, recordSyncProgress, startSyncRun } from "@/lib/syncRuns";
+import {
+  clearCheckpoints,
+  getCheckpointedWeeks,
+  markWeeksSynced,
+  settledThroughWeek,
+} from "@/lib/checkpoints";
+
+/*
+  League sync
+
+  syncLeague() syncs ONE Sleeper league id (one season). Shared by /api/sync,
+  /api/sync-history and anything else that needs to ingest a season in-process.
+  Safe to run repeatedly (upserts + deletes/recreates assets per changed txn).
+  Transaction assets come from lib/normalizeTransaction.
+
+  Everything is fetched first, then the season is written with bulk operations
+  inside ONE database transaction: a failure leaves the previously synced data intact.
+
+  Incremental by default:
+    - weeks already ingested and settled (see lib/checkpoints) are not re-fetched
+    - completed seasons are marked frozen on LeagueSeason and skipped entirely
+    - full: true ignores checkpoints and rebuilds everything
+    - only the weeks the season actually has are fetched (see lib/weeks)
+
+  LeagueSeason.syncStatus tracks the outcome per season (running | ok | failed)
+  so a history sync can resume where it left off.
+
+  Each call is recorded as a SyncRun (see lib/syncRuns).
+  Records failing schema validation are quarantined (see lib/quarantine), not written.
+*/
+
+export type LeagueSyncOptions = {
+  full?: boolean;
+  trigger?: string;
+};
+
+export type LeagueSyncResult =
+  | ({ ok: true; runId: string; leagueId: string; season: number; frozen: boolean } & Record<
+      string,
+      unknown
+    >)
+  | { ok: false; runId: string | null; leagueId: string; season?: number; error: string };
+
+/**
+ * Takes a per-league advisory lock so overlapping triggers (manual, history, cron)
+ * never interleave writes for the same season; the loser fails fast.
+ */
+export async function syncLeague(
+  leagueId: string,
+  opts: LeagueSyncOptions = {}
+): Promise<LeagueSyncResult> {
+  const locked = await withAdvisoryLock(`sync:league:${leagueId}`, () =>
+    syncLeagueUnlocked(leagueId, opts)
+  );
+  if (locked.acquired) return locked.value;
+
+  return {
+    ok: false,
+    runId: null,
+    leagueId,
+    error: `A sync of league ${leagueId} is already running`,
+  };
+}
+
+async function syncLeagueUnlocked(
+  leagueId: string,
+  opts: LeagueSyncOptions
+): Promise<LeagueSyncResult> {
+  const full = opts.full ?? false;
+  let runId: string | null = null;
+  let seasonSeen: number | undefined; // for marking the season failed in catch
+  const counts = {
+    users: 0,
+    rosters: 0,
+    rosterSnapshots: 0,
+    matchupsUpserted: 0,
+    matchupPlayers: 0,
+    transactionsFetched: 0,
+    transactionsUpserted: 0,
+    transactionsUnchanged: 0,
+    assetsCreated: 0,
+    drafts: 0,
+    draftPicks: 0,
+    draftsUnchanged: 0,
+    tradedPicks: 0,
+    matchupWeeksSkipped: 0,
+    transactionWeeksSkipped: 0,
+    usersQuarantined: 0,
+    rostersQuarantined: 0,
+    matchupsQuarantined: 0,
+    transactionsQuarantined: 0,
+    draftsQuarantined: 0,
+    draftPicksQuarantined: 0,
+    tradedPicksQuarantined: 0,
+    transactionViews: 0,
+  };
+
+  try {
+    runId = await startSyncRun("league", opts.trigger ?? "manual", [leagueId]);
+
+    const existing = await db.leagueSeason.findFirst({
+      where: { leagueId },
+      select: { season: true, frozen: true, syncStatus: true },
+    });
+
+    if (existing && isDone(existing) && !full) {
+      await finishSyncRun(runId, counts);
+      return { ok: true, runId, leagueId, season: existing.season, frozen: true, skipped: true };
+    }
+
+    const league = await getLeague(leagueId);
+    const season = Number(league.season);
+    seasonSeen = season;
+
+    const seasonRow = {
+      previousLeagueId: league.previous_league_id ?? null,
+      status: league.status ?? null,
+      ...leagueSettingsRow(league),
+      syncStatus: "running",
+    };
+    await db.leagueSeason.upsert({
+      where: { leagueId_season: { leagueId, season } },
+      update: { ...seasonRow, syncError: null },
+      create: { leagueId, season, ...seasonRow },
+    });
+
+    if (full) await clearCheckpoints(leagueId);
+
+    const q = { syncRunId: runId, leagueId, season };
+
+    const weeks = computeSeasonWeeks(league, await getNflState());
+    const settledThrough = settledThroughWeek(league);
+    const isSettled = (week: number, done: Set<number>) => week <= settledThrough && done.has(week);
+
+    // ================= FETCH (network only, nothing written yet) =================
+
+    // ---------------- USERS ----------------
+    const users = validateEach(userSchema, await getUsers(leagueId));
+    counts.usersQuarantined += await quarantineRecords(q, "user", users.invalid);
+
+    // ---------------- ROSTERS ----------------
+    const rosters = validateEach(rosterSchema, await getRosters(leagueId));
+    counts.rostersQuarantined += await quarantineRecords(q, "roster", rosters.invalid);
+
+    // ---------------- MATCHUPS ----------------
+    const matchupWeeksDone = await getCheckpointedWeeks(leagueId, "matchups");
+    const matchupsByWeek = new Map<number, SleeperMatchup[]>();
+    const matchupWeeksQuarantined = new Set<number>();
+
+    for (let week = weeks.matchups.from; week <= weeks.matchups.to; week++) {
+      if (isSettled(week, matchupWeeksDone)) {
+        counts.matchupWeeksSkipped++;
+        continue;
+      }
+
+      const matchups = validateEach(matchupSchema, await getMatchups(leagueId, week));
+      const quarantined = await quarantineRecords({ ...q, week }, "matchup", matchups.invalid);
+      counts.matchupsQuarantined += quarantined;
+      if (quarantined > 0) matchupWeeksQuarantined.add(week);
+      matchupsByWeek.set(week, matchups.valid);
+    }
+
+    // ---------------- TRANSACTIONS ----------------
+    const transactionWeeksDone = await getCheckpointedWeeks(leagueId, "transactions");
+    const txnsByWeek = new Map<number, SleeperTransaction[]>();
+    const transactionWeeksQuarantined = new Set<number>();
+
+    for (let week = weeks.transactions.from; week <= weeks.transactions.to; week++) {
+      if (isSettled(week, transactionWeeksDone)) {
+        counts.transactionWeeksSkipped++;
+        continue;
+      }
+
+      const { valid: txns, invalid } = validateEach(
+        transactionSchema,
+        await getTransactions(leagueId, week)
+      );
+      const quarantined = await quarantineRecords({ ...q, week }, "transaction", invalid);
+      counts.transactionsQuarantined += quarantined;
+      if (quarantined > 0) transactionWeeksQuarantined.add(week);
+
+      txnsByWeek.set(week, txns);
+      counts.transactionsFetched += txns.length;
+    }
+
+    // ---------------- DRAFTS ----------------
+    // A completed draft never changes: only re-fetched on full syncs
+    const draftList = validateEach(draftSummarySchema, await getLeagueDrafts(leagueId));
+    counts.draftsQuarantined += await quarantineRecords(q, "draft", draftList.invalid);
+
+    const storedDrafts = await db.draft.findMany({
+      where: { id: { in: draftList.valid.map((d) => d.draft_id) }, status: "complete" },
+      select: { id: true },
+    });
+    const completeDraftIds = new Set(storedDrafts.map((d) => d.id));
+    const drafts: { draft: SleeperDraft; picks: SleeperDraftPick[] }[] = [];
+
+    for (const summary of draftList.valid) {
+      if (!full && completeDraftIds.has(summary.draft_id)) {
+        counts.draftsUnchanged++;
+        continue;
+      }
+
+      const draft = validateEach(draftSchema, [await getDraft(summary.draft_id)]);
+      counts.draftsQuarantined += await quarantineRecords(q, "draft", draft.invalid);
+      if (draft.valid.length === 0) continue;
+
+      const picks = validateEach(draftPickSchema, await getDraftPicks(summary.draft_id));
+      counts.draftPicksQuarantined += await quarantineRecords(q, "draft_pick", picks.invalid);
+
+      drafts.push({ draft: draft.valid[0], picks: picks.valid });
+    }
+
+    // ---------------- TRADED PICKS ----------------
+    const tradedPicks = validateEach(tradedPickSchema, await getTradedPicks(leagueId));
+    counts.tradedPicksQuarantined += await quarantineRecords(q, "traded_pick", tradedPicks.invalid);
+    await recordSyncProgress(runId, counts);
+
+    // ================= WRITE (one DB transaction for the whole season) =================
+
+    // Keyed by id: the same txn can show up in more than one week's list
+    const fetchedById = new Map<string, { week: number; t: SleeperTransaction }>();
+    for (const [week, txns] of txnsByWeek) {
+      for (const t of txns) fetchedById.set(t.transaction_id, { week, t });
+    }
+    const fetchedTxns = Array.from(fetchedById.values());
+
+    // Sleeper bumps status_updated whenever a txn changes; skip rewriting txns when it hasn't
+    const stored =
+      fetchedTxns.length > 0
+        ? await db.transaction.findMany({
+            where: { id: { in: fetchedTxns.map(({ t }) => t.transaction_id) } },
+            select: { id: true, updatedAtMs: true },
+          })
+        : [];
+    const storedUpdatedAt = new Map(stored.map((r) => [r.id, r.updatedAtMs]));
+
+    const changedTxns = fetchedTxns.filter(({ t }) => {
+      const updatedAtMs = toBigInt(t.status_updated ?? t.created);
+      const unchanged =
+        !full && updatedAtMs !== null && storedUpdatedAt.get(t.transaction_id) === updatedAtMs;
+      if (unchanged) counts.transactionsUnchanged++;
+      return !unchanged;
+    });
+
+    const txnRow = (week: number, t: SleeperTransaction) => ({
+      leagueId,
+      season,
+      week,
+      type: t.type,
+      status: t.status,
+      createdAtMs: toBigInt(t.created),
+      updatedAtMs: toBigInt(t.status_updated ?? t.created),
+      createdAt: new Date(t.created),
+      rawJson: t as Prisma.InputJsonValue,
+    });
+
+    // A completed season has every week checkpointed after this commit -> freeze it,
+    // unless some weeks had quarantined records (they stay un-checkpointed to be refetched)
+    const frozen =
+      league.status === "complete" &&
+      matchupWeeksQuarantined.size === 0 &&
+      transactionWeeksQuarantined.size === 0;
+
+    await db.$transaction(
+      async (tx) => {
+        // ---------------- USERS ----------------
+        // createMany for new users, update only the ones whose names changed
+        const existingUsers = await tx.sleeperUser.findMany({
+          where: { sleeperUserId: { in: users.valid.map((u) => u.user_id) } },
+          select: { sleeperUserId: true, displayName: true, username: true },
+        });
+        const existingUserMap = new Map(existingUsers.map((u) => [u.sleeperUserId, u]));
+
+        await tx.sleeperUser.createMany({
+          data: users.valid
+            .filter((u) => !existingUserMap.has(u.user_id))
+            .map((u) => ({
+              sleeperUserId: u.user_id,
+              displayName: u.display_name ?? null,
+              username: u.username ?? null,
+            })),
+          skipDuplicates: true,
+        });
+
+        for (const u of users.valid) {
+          const prev = existingUserMap.get(u.user_id);
+          if (!prev) continue;
+          if (prev.displayName === (u.display_name ?? null) && prev.username === (u.username ?? null)) {
+            continue;
+          }
+          await tx.sleeperUser.update({
+            where: { sleeperUserId: u.user_id },
+            data: { displayName: u.display_name ?? null, username: u.username ?? null },
+          });
+        }
+        counts.users = users.valid.length;
+
+        // ---------------- ROSTERS ----------------
+        // Never delete rosters: RosterClaim cascades from them
+        const existingRosters = await tx.roster.findMany({
+          where: { leagueId, season },
+          select: { rosterId: true },
+        });
+        const existingRosterIds = new Set(existingRosters.map((r) => r.rosterId));
+        const rosterRow = (r: SleeperRoster) => ({
+          ownerId: r.owner_id,
+          settingsJson: (r.settings ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        });
+
+        await tx.roster.createMany({
+          data: rosters.valid
+            .filter((r) => !existingRosterIds.has(r.roster_id))
+            .map((r) => ({ leagueId, season, rosterId: r.roster_id, ...rosterRow(r) })),
+          skipDuplicates: true,
+        });
+
+        // Record/FAAB settings move every week, so existing rosters are always refreshed
+        for (const r of rosters.valid) {
+          if (!existingRosterIds.has(r.roster_id)) continue;
+          await tx.roster.update({
+            where: { leagueId_season_rosterId: { leagueId, season, rosterId: r.roster_id } },
+            data: rosterRow(r),
+          });
+        }
+        counts.rosters = rosters.valid.length;
+
+        // ---------------- MATCHUPS ----------------
+        // Replace the fetched weeks wholesale
+        const matchupWeeks = Array.from(matchupsByWeek.keys());
+        if (matchupWeeks.length > 0) {
+          await tx.matchup.deleteMany({ where: { leagueId, season, week: { in: matchupWeeks } } });
+
+          const created = await tx.matchup.createMany({
+            data: Array.from(matchupsByWeek.entries()).flatMap(([week, matchups]) =>
+              matchups.map((m) => ({
+                leagueId,
+                season,
+                week,
+                matchupId: m.matchup_id,
+                rosterId: m.roster_id,
+                points: m.points ?? null,
+              }))
+            ),
+            skipDuplicates: true,
+          });
+          counts.matchupsUpserted = created.count;
+
+          // Per-player lines cascade-deleted with their matchups above
+          const lines = await tx.matchupPlayer.createMany({
+            data: Array.from(matchupsByWeek.entries()).flatMap(([week, matchups]) =>
+              matchups.flatMap((m) =>
+                matchupPlayerRows(m).map((p) => ({
+                  leagueId,
+                  season,
+                  week,
+                  rosterId: m.roster_id,
+                  ...p,
+                }))
+              )
+            ),
+            skipDuplicates: true,
+          });
+          counts.matchupPlayers = lines.count;
+        }
+
+        // ---------------- ROSTER SNAPSHOTS ----------------
+        // /rosters is "as of now" -> it becomes the snapshot of the current (or final) week.
+        // Other fetched weeks are rebuilt from their matchups (players + starters only),
+        // never replacing a snapshot taken from /rosters during that week.
+        const snapshotWeek = Math.max(0, weeks.matchups.to);
+        const knownRosterIds = new Set([
+          ...existingRosterIds,
+          ...rosters.valid.map((r) => r.roster_id),
+        ]);
+
+        await tx.rosterSnapshot.deleteMany({
+          where: {
+            leagueId,
+            season,
+            OR: [{ week: snapshotWeek }, { source: "matchup", week: { in: matchupWeeks } }],
+          },
+        });
+
+        const fromRosters = await tx.rosterSnapshot.createMany({
+          data: rosters.valid.map((r) => ({
+            leagueId,
+            season,
+            week: snapshotWeek,
+            ...rosterSnapshotRow(r),
+          })),
+        });
+
+        const fromMatchups = await tx.rosterSnapshot.createMany({
+          data: Array.from(matchupsByWeek.entries()).flatMap(([week, matchups]) =>
+            matchups
+              .filter((m) => knownRosterIds.has(m.roster_id) && m.players)
+              .map((m) => ({
+                leagueId,
+                season,
+                week,
+                rosterId: m.roster_id,
+                source: "matchup",
+                players: m.players ?? [],
+                starters: m.starters ?? [],
+              }))
+          ),
+          skipDuplicates: true,
+        });
+        counts.rosterSnapshots = fromRosters.count + fromMatchups.count;
+
+        await markWeeksSynced(
+          leagueId,
+          "matchups",
+          new Map(Array.from(matchupsByWeek.entries()).map(([w, m]) => [w, m.length])),
+          matchupWeeksQuarantined,
+          tx
+        );
+
+        // ---------------- TRANSACTIONS ----------------
+        // Never delete transactions: TradeNote cascades from them
+        if (changedTxns.length > 0) {
+          const changedIds = changedTxns.map(({ t }) => t.transaction_id);
+
+          await tx.transaction.createMany({
+            data: changedTxns
+              .filter(({ t }) => !storedUpdatedAt.has(t.transaction_id))
+              .map(({ week, t }) => ({ id: t.transaction_id, ...txnRow(week, t) })),
+            skipDuplicates: true,
+          });
+
+          for (const { week, t } of changedTxns) {
+            if (!storedUpdatedAt.has(t.transaction_id)) continue;
+            await tx.transaction.update({ where: { id: t.transaction_id }, data: txnRow(week, t) });
+          }
+          counts.transactionsUpserted = changedTxns.length;
+
+          await tx.transactionAsset.deleteMany({ where: { transactionId: { in: changedIds } } });
+
+          const assets = await tx.transactionAsset.createMany({
+            data: changedTxns.flatMap(({ t }) =>
+              normalizeTransaction(t).assets.map((a) => ({ transactionId: t.transaction_id, ...a }))
+            ),
+          });
+          counts.assetsCreated = assets.count;
+        }
+
+        await markWeeksSynced(
+          leagueId,
+          "transactions",
+          new Map(Array.from(txnsByWeek.entries()).map(([w, t]) => [w, t.length])),
+          transactionWeeksQuarantined,
+          tx
+        );
+
+        // ---------------- DRAFTS ----------------
+        // Picks are replaced wholesale per fetched draft
+        for (const { draft, picks } of drafts) {
+          const row = {
+            leagueId,
+            season: Number(draft.season) || season,
+            type: draft.type ?? null,
+            status: draft.status ?? null,
+            rounds: draft.settings?.rounds ?? null,
+            startTime: toBigInt(draft.start_time),
+            draftOrder: (draft.draft_order ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+            slotToRosterId: (draft.slot_to_roster_id ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+            rawJson: draft as Prisma.InputJsonValue,
+          };
+          await tx.draft.upsert({
+            where: { id: draft.draft_id },
+            update: row,
+            create: { id: draft.draft_id, ...row },
+          });
+
+          await tx.draftPick.deleteMany({ where: { draftId: draft.draft_id } });
+          const created = await tx.draftPick.createMany({
+            data: picks.map((p, i) => ({ draftId: draft.draft_id, ...draftPickRow(draft, p, i) })),
+            skipDuplicates: true,
+          });
+          counts.draftPicks += created.count;
+        }
+        counts.drafts = drafts.length;
+
+        // ---------------- TRADED PICKS ----------------
+        // Sleeper returns the full current ledger -> replace it
+        await tx.tradedPick.deleteMany({ where: { leagueId } });
+        const ledger = await tx.tradedPick.createMany({
+          data: tradedPicks.valid.map((p) => ({
+            leagueId,
+            season: Number(p.season),
+            round: p.round,
+            originalRosterId: p.roster_id,
+            ownerRosterId: p.owner_id,
+            previousOwnerRosterId: p.previous_owner_id ?? null,
+          })),
+          skipDuplicates: true,
+        });
+        counts.tradedPicks = ledger.count;
+
+        await tx.leagueSeason.update({
+          where: { leagueId_season: { leagueId, season } },
+          data: { frozen, lastSyncedAt: new Date(), syncStatus: "ok" },
+        });
+      },
+      { maxWait: 10_000, timeout: 120_000 }
+    );
+
+    // Outside the transaction: relabels rows in other seasons too (picks used this season)
+    counts.transactionViews = await refreshViewsForSeason(leagueId, season);
+
+    await finishSyncRun(runId, counts);
+
+    return { ok: true, runId, leagueId, season, full, frozen, weeks, ...counts };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    await failSyncRun(runId, e, counts);
+
+    if (seasonSeen !== undefined) {
+      await db.leagueSeason
+        .update({
+          where: { leagueId_season: { leagueId, season: seasonSeen } },
+          data: { syncStatus: "failed", syncError: error },
+        })
+        .catch(() => {});
+    }
+
+    return { ok: false, runId, leagueId, season: seasonSeen, error };
+  }
+}
+
+/**
+ * League -> the per-season settings snapshot columns on LeagueSeason
+ */
+function leagueSettingsRow(league: SleeperLeague) {
+  const settings = league.settings ?? {};
+  return {
+    name: league.name ?? null,
+    avatar: league.avatar ?? null,
+    rosterPositions: league.roster_positions ?? [],
+    scoringSettings: (league.scoring_settings ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+    waiverType: settings.waiver_type ?? null,
+    waiverBudget: settings.waiver_budget ?? null,
+    playoffTeams: settings.playoff_teams ?? null,
+    tradeDeadline: settings.trade_deadline ?? null,
+    settingsJson: (league.settings ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Draft pick -> DraftPick columns. The original owner comes from the pick's slot,
+ * since roster_id is whoever made the pick (after any trades).
+ */
+function draftPickRow(draft: SleeperDraft, p: SleeperDraftPick, index: number) {
+  const slot = p.draft_slot ?? null;
+  const original = slot !== null ? draft.slot_to_roster_id?.[String(slot)] : undefined;
+
+  return {
+    pickNo: p.pick_no ?? index + 1,
+    round: p.round,
+    draftSlot: slot,
+    rosterId: p.roster_id,
+    originalRosterId: original ?? null,
+    pickedBy: p.picked_by || null,
+    playerId: p.player_id,
+    isKeeper: p.is_keeper ?? false,
+  };
+}
+
+/**
+ * Matchup -> one row per rostered player, flagging starters with their slot
+ */
+function matchupPlayerRows(m: SleeperMatchup) {
+  const slotOf = new Map<string, number>();
+  (m.starters ?? []).forEach((id, slot) => {
+    if (id !== "0") slotOf.set(id, slot);
+  });
+
+  const ids = new Set([...(m.players ?? []), ...slotOf.keys()]);
+
+  return Array.from(ids).map((playerId) => {
+    const slot = slotOf.get(playerId);
+    const points =
+      m.players_points?.[playerId] ?? (slot !== undefined ? m.starters_points?.[slot] : undefined);
+
+    return {
+      playerId,
+      points: points ?? null,
+      starter: slot !== undefined,
+      starterSlot: slot ?? null,
+    };
+  });
+}
+
+/**
+ * /rosters entry -> RosterSnapshot columns (fpts come split into whole + hundredths)
+ */
+function rosterSnapshotRow(r: SleeperRoster) {
+  const s = r.settings ?? {};
+  const points = (whole?: number, decimal?: number) =>
+    whole === undefined ? null : whole + (decimal ?? 0) / 100;
+
+  return {
+    rosterId: r.roster_id,
+    ownerId: r.owner_id,
+    source: "roster",
+    players: r.players ?? [],
+    starters: r.starters ?? [],
+    reserve: r.reserve ?? [],
+    taxi: r.taxi ?? [],
+    wins: s.wins ?? null,
+    losses: s.losses ?? null,
+    ties: s.ties ?? null,
+    fpts: points(s.fpts, s.fpts_decimal),
+    fptsAgainst: points(s.fpts_against, s.fpts_against_decimal),
+    waiverBudgetUsed: s.waiver_budget_used ?? null,
+  };
+}
+
+/**
+ * A frozen season whose last sync didn't fail never needs syncing again (short of full=1).
+ */
+function isDone(row: { frozen: boolean; syncStatus: string | null }) {
+  return row.frozen && row.syncStatus !== "failed";
+}
+
+/*
+  ---------------------------------------
+  History (previous_league_id chain)
+  ---------------------------------------
+*/
+
+export type ChainEntry = {
+  leagueId: string;
+  season: number | null;
+  done: boolean; // frozen + last sync ok -> nothing to do
+};
+
+type StoredSeason = {
+  season: number;
+  previousLeagueId: string | null;
+  frozen: boolean;
+  syncStatus: string | null;
+};
+
+/**
+ * Walks previous_league_id newest -> oldest.
+ * Frozen seasons already in LeagueSeason are read from the DB; everything else asks Sleeper.
+ */
+export async function walkLeagueChain(startLeagueId: string, maxDepth = 15) {
+  const chain: ChainEntry[] = [];
+  const seen = new Set<string>();
+  let current: string | null = startLeagueId;
+
+  for (let i = 0; i < maxDepth && current; i++) {
+    if (seen.has(current)) break;
+    seen.add(current);
+
+    const row: StoredSeason | null = await db.leagueSeason.findFirst({
+      where: { leagueId: current },
+      select: { season: true, previousLeagueId: true, frozen: true, syncStatus: true },
+    });
+
+    if (row && isDone(row)) {
+      chain.push({ leagueId: current, season: row.season, done: true });
+      current = row.previousLeagueId;
+      continue;
+    }
+
+    const meta = await getLeague(current);
+    chain.push({ leagueId: current, season: Number(meta.season), done: false });
+    current = meta.previous_league_id ?? null;
+  }
+
+  return chain;
+}
+
+export type HistorySyncOptions = LeagueSyncOptions & {
+  maxDepth?: number;
+  concurrency?: number;
+};
+
+export type HistorySeasonResult = {
+  leagueId: string;
+  season: number | null;
+  status: "ok" | "failed" | "skipped";
+  runId?: string | null;
+  error?: string;
+};
+
+/**
+ * Syncs every season in the chain in-process with bounded parallelism.
+ * A failing season is reported and the rest carry on. Rerunning only retries
+ * seasons that failed or aren't finished (completed + synced seasons are skipped).
+ */
+export async function syncLeagueHistory(startLeagueId: string, opts: HistorySyncOptions = {}) {
+  const counts = { seasonsSynced: 0, seasonsFailed: 0, seasonsSkipped: 0 };
+  const runId = await startSyncRun("history", opts.trigger ?? "manual", [startLeagueId]);
+
+  try {
+    const chain = await walkLeagueChain(startLeagueId, opts.maxDepth ?? 15);
+    const limit = pLimit(Math.max(1, opts.concurrency ?? 3));
+
+    const results = await Promise.all(
+      chain.map((entry) =>
+        limit(async (): Promise<HistorySeasonResult> => {
+          if (entry.done && !opts.full) {
+            counts.seasonsSkipped++;
+            return { leagueId: entry.leagueId, season: entry.season, status: "skipped" };
+          }
+
+          const r = await syncLeague(entry.leagueId, { full: opts.full, trigger: "history" });
+          if (r.ok) counts.seasonsSynced++;
+          else counts.seasonsFailed++;
+
+          return {
+            leagueId: entry.leagueId,
+            season: r.season ?? entry.season,
+            status: r.ok ? "ok" : "failed",
+            runId: r.runId,
+            ...(r.ok ? {} : { error: r.error }),
+          };
+        })
+      )
+    );
+
+    const leagueIds = chain.map((c) => c.leagueId);
+    const failed = results.filter((r) => r.status === "failed");
+
+    if (failed.length > 0) {
+      const summary = failed.map((f) => `${f.season ?? f.leagueId}: ${f.error}`).join("; ");
+      await failSyncRun(
+        runId,
+        new Error(`${failed.length} of ${chain.length} seasons failed — ${summary}`),
+        counts
+      );
+    } else {
+      await finishSyncRun(runId, counts, leagueIds);
+    }
+
+    return { ok: failed.length === 0, runId, startLeagueId, chain: leagueIds, ...counts, results };
+  } catch (e) {
+    await failSyncRun(runId, e, counts);
+    throw e;
+  }
+}
+
+function toInt(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toBigInt(v: unknown): bigint | null {
+  const n = toInt(v);
+  return n === null ? null : BigInt(Math.trunc(n));
+}
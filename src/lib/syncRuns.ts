@@ -0,0 +1,63 @@
+import { db } from "@/lib/db";
+
+/*
+  Sync run ledger
+
+  Every sync route records a SyncRun: start, per-step counts, outcome.
+  This is the first place to look when data is missing after a sync.
+*/
+
+export type SyncRunKind = "league" | "history" | "players";
+export type SyncCounts = Record<string, number>;
+
+const TRIGGERS = new Set(["manual", "history", "cron"]);
+
+/**
+ * ?trigger=... from the request, defaulting to "manual".
+ */
+export function triggerFrom(req: Request) {
+  const t = new URL(req.url).searchParams.get("trigger") ?? "manual";
+  return TRIGGERS.has(t) ? t : "manual";
+}
+
+export async function startSyncRun(kind: SyncRunKind, trigger: string, leagueIds: string[] = []) {
+  const run = await db.syncRun.create({
+    data: { kind, trigger, leagueIds },
+    select: { id: true },
+  });
+  return run.id;
+}
+
+export async function recordSyncProgress(runId: string, counts: SyncCounts) {
+  await db.syncRun.update({ where: { id: runId }, data: { counts } });
+}
+
+export async function finishSyncRun(runId: string, counts: SyncCounts, leagueIds?: string[]) {
+  await db.syncRun.update({
+    where: { id: runId },
+    data: { status: "ok", finishedAt: new Date(), counts, ...(leagueIds ? { leagueIds } : {}) },
+  });
+}
+
+/**
+ * Best-effort: never let ledger bookkeeping mask the original error.
+ */
+export async function failSyncRun(runId: string | null, err: unknown, counts?: SyncCounts) {
+  if (!runId) return;
+
+  const e = err instanceof Error ? err : null;
+  try {
+    await db.syncRun.update({
+      where: { id: runId },
+      data: {
+        status: "failed",
+        finishedAt: new Date(),
+        error: e?.message ?? String(err),
+        errorStack: e?.stack ?? null,
+        ...(counts ? { counts } : {}),
+      },
+    });
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,503 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { storedLeagueChain } from "@/lib/leagueChain";
+import { listLeagues } from "@/lib/leagues";
+import { withAdvisoryLock } from "@/lib/lock";
+import {
+  ASSET_FILTER_KINDS,
+  createTxLabeler,
+  prettyType,
+  rootRosterLabels,
+  toTxItem,
+  txSelect,
+  uniq,
+  assetKindsFor,
+  type TransactionFilters,
+  type TxItem,
+  type TxRow,
+} from "@/lib/transactionView";
+
+/*
+  Transaction read model
+
+  /api/transactions reads TransactionView rows (labels already resolved) instead of
+  labelling every page on request, and its facets come from TransactionFacetCache.
+
+  Views are rebuilt:
+    - by the league sync, for that season's transactions plus any transaction that
+      moved one of that season's draft picks (their "pick used on" labels change)
+    - by the same sync, for every season of the chain when the root team labels differ
+      from the ones the views were built with (TransactionViewLabels), and for any
+      transaction that has no view yet (after a migration wipe)
+    - at the end of a restore, for every registered league (archives hold no views)
+    - by the players sync, for transactions of players whose name/position/team changed
+
+  Requests only read views; they never build them.
+*/
+
+const BATCH = 500;
+
+type Facet = { value: string; label: string };
+
+export type TransactionFacets = {
+  seasons: Facet[];
+  types: Facet[];
+  statuses: Facet[];
+  teams: Facet[];
+  teamsSeason: number;
+  pickRounds: Facet[];
+};
+
+type LabelContext = {
+  rootLeagueId: string;
+  leagueIds: string[];
+  seasonToLeagueId: Map<number, string>;
+  rootLabels: Map<number, string>;
+};
+
+// Everything a search can match on the view itself (trade notes are searched live)
+function searchText(item: TxItem) {
+  const sides = [...item.received, ...item.sent, ...(item.added ?? []), ...(item.dropped ?? [])];
+  const moves = (item.moved ?? []).flatMap((m) => [m.from, m.to, ...m.items]);
+  return uniq([...item.teams, ...sides.flatMap((s) => [s.team, ...s.items]), ...moves]).join(" ");
+}
+
+function viewRow(t: TxRow, item: TxItem): Prisma.TransactionViewCreateManyInput {
+  return {
+    id: t.id,
+    leagueId: t.leagueId,
+    season: t.season,
+    week: t.week,
+    type: t.type,
+    status: t.status,
+    createdAt: t.createdAt,
+    rosterIds: uniq(
+      t.assets
+        .flatMap((a) => [a.fromRosterId, a.toRosterId])
+        .filter((x): x is number => x !== null)
+    ),
+    playerIds: uniq(t.assets.map((a) => a.playerId).filter((x): x is string => !!x)),
+    assetKinds: ASSET_FILTER_KINDS.filter((k) =>
+      t.assets.some((a) => assetKindsFor(k).includes(a.kind))
+    ),
+    pickRounds: uniq(
+      t.assets
+        .filter((a) => a.kind === "pick" && a.pickRound !== null)
+        .map((a) => a.pickRound as number)
+    ),
+    faab: Math.max(0, ...t.assets.filter((a) => a.kind === "faab").map((a) => a.faabAmount ?? 0)),
+    item: item as Prisma.InputJsonValue,
+    searchText: searchText(item),
+  };
+}
+
+/**
+ * (Re)builds the views of every transaction matching `where`, a batch at a time.
+ */
+async function buildViews(where: Prisma.TransactionWhereInput, ctx: LabelContext) {
+  let built = 0;
+  let after: string | null = null;
+
+  for (;;) {
+    const rows: TxRow[] = await db.transaction.findMany({
+      where: after === null ? where : { AND: [where, { id: { gt: after } }] },
+      orderBy: { id: "asc" },
+      take: BATCH,
+      select: txSelect,
+    });
+    if (rows.length === 0) break;
+
+    const labels = await createTxLabeler(rows, ctx);
+    await db.$transaction([
+      db.transactionView.deleteMany({ where: { id: { in: rows.map((t) => t.id) } } }),
+      // skipDuplicates: another season's sync may be rebuilding the same pick trades
+      db.transactionView.createMany({
+        data: rows.map((t) => viewRow(t, toTxItem(t, labels))),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    built += rows.length;
+    if (rows.length < BATCH) break;
+    after = rows[rows.length - 1].id;
+  }
+
+  return built;
+}
+
+async function labelContext(rootLeagueId: string, leagueIds: string[]): Promise<LabelContext> {
+  const seasons = await db.leagueSeason.findMany({
+    where: { leagueId: { in: leagueIds } },
+    select: { leagueId: true, season: true },
+    orderBy: { season: "desc" },
+  });
+
+  const seasonToLeagueId = new Map(seasons.map((s) => [s.season, s.leagueId]));
+  const newest = seasons.find((s) => s.leagueId === rootLeagueId)?.season ?? seasons[0]?.season;
+  const rootLabels = await rootRosterLabels(rootLeagueId, newest ?? new Date().getFullYear());
+
+  return { rootLeagueId, leagueIds, seasonToLeagueId, rootLabels };
+}
+
+/**
+ * Label context of a root league's stored chain (DB only, see storedLeagueChain).
+ */
+export async function chainLabelContext(rootLeagueId: string) {
+  return labelContext(rootLeagueId, await storedLeagueChain(rootLeagueId));
+}
+
+/**
+ * Label context of the registered league whose chain holds this season
+ * (or the season's own stored chain when no registered league does).
+ */
+async function labelContextFor(leagueId: string) {
+  for (const league of await listLeagues()) {
+    const chain = await storedLeagueChain(league.rootLeagueId);
+    if (chain.includes(leagueId)) return labelContext(league.rootLeagueId, chain);
+  }
+  return labelContext(leagueId, await storedLeagueChain(leagueId));
+}
+
+function sameLabels(stored: Prisma.JsonValue, labels: Record<string, string>) {
+  if (!stored || typeof stored !== "object" || Array.isArray(stored)) return false;
+  const keys = Object.keys(labels);
+  return (
+    Object.keys(stored).length === keys.length && keys.every((k) => stored[k] === labels[k])
+  );
+}
+
+/**
+ * Whole-chain pass: every view when the root labels changed, else only missing ones.
+ */
+async function refreshChainViews(ctx: LabelContext) {
+  const labels = Object.fromEntries(
+    Array.from(ctx.rootLabels.entries()).map(([rosterId, label]) => [String(rosterId), label])
+  );
+  const stored = await db.transactionViewLabels.findUnique({
+    where: { rootLeagueId: ctx.rootLeagueId },
+  });
+
+  const chain: Prisma.TransactionWhereInput = { leagueId: { in: ctx.leagueIds } };
+  const built = await buildViews(
+    stored && sameLabels(stored.labels, labels) ? { ...chain, view: { is: null } } : chain,
+    ctx
+  );
+
+  await db.transactionViewLabels.upsert({
+    where: { rootLeagueId: ctx.rootLeagueId },
+    update: { labels },
+    create: { rootLeagueId: ctx.rootLeagueId, labels },
+  });
+  return built;
+}
+
+/**
+ * After a league sync: that season's transactions, plus transactions (anywhere in the
+ * chain) that moved one of that season's picks, then the whole-chain pass.
+ * Seasons of one chain sync in parallel (history sync); only one of them runs the
+ * chain pass at a time, the others skip it.
+ */
+export async function refreshViewsForSeason(leagueId: string, season: number) {
+  const ctx = await labelContextFor(leagueId);
+  const built = await buildViews(
+    {
+      leagueId: { in: ctx.leagueIds },
+      OR: [{ leagueId }, { assets: { some: { kind: "pick", pickSeason: season } } }],
+    },
+    ctx
+  );
+
+  const chain = await withAdvisoryLock(`views:chain:${ctx.rootLeagueId}`, () =>
+    refreshChainViews(ctx)
+  );
+  return built + (chain.acquired ? chain.value : 0);
+}
+
+/**
+ * Whole-chain pass for every registered league, e.g. after a restore (archives hold
+ * no views).
+ */
+export async function refreshAllChainViews() {
+  let built = 0;
+  for (const league of await listLeagues()) {
+    const ctx = await chainLabelContext(league.rootLeagueId);
+    const chain = await withAdvisoryLock(`views:chain:${ctx.rootLeagueId}`, () =>
+      refreshChainViews(ctx)
+    );
+    if (chain.acquired) built += chain.value;
+  }
+  return built;
+}
+
+/**
+ * After a players sync: transactions involving players whose labels changed.
+ */
+export async function refreshViewsForPlayers(playerIds: string[]) {
+  if (playerIds.length === 0) return 0;
+
+  const txIds = new Set<string>();
+  for (let i = 0; i < playerIds.length; i += 1000) {
+    const views = await db.transactionView.findMany({
+      where: { playerIds: { hasSome: playerIds.slice(i, i + 1000) } },
+      select: { id: true },
+    });
+    for (const v of views) txIds.add(v.id);
+  }
+  if (txIds.size === 0) return 0;
+
+  let built = 0;
+  for (const league of await listLeagues()) {
+    const ctx = await chainLabelContext(league.rootLeagueId);
+    built += await buildViews(
+      { id: { in: Array.from(txIds) }, leagueId: { in: ctx.leagueIds } },
+      ctx
+    );
+  }
+  return built;
+}
+
+/*
+  ---------------------------------------
+  Facets (cached per root league)
+  ---------------------------------------
+*/
+
+async function lastSyncedAt(leagueIds: string[]) {
+  const agg = await db.leagueSeason.aggregate({
+    where: { leagueId: { in: leagueIds } },
+    _max: { lastSyncedAt: true },
+  });
+  return agg._max.lastSyncedAt;
+}
+
+async function computeFacets(leagueIds: string[], rootLabels: Map<number, string>, teamsSeason: number) {
+  const [seasonRows, typeRows, statusRows, roundRows] = await Promise.all([
+    db.transaction.findMany({
+      where: { leagueId: { in: leagueIds } },
+      distinct: ["season"],
+      select: { season: true },
+      orderBy: { season: "desc" },
+    }),
+    db.transaction.findMany({
+      where: { leagueId: { in: leagueIds } },
+      distinct: ["type"],
+      select: { type: true },
+    }),
+    db.transaction.findMany({
+      where: { leagueId: { in: leagueIds } },
+      distinct: ["status"],
+      select: { status: true },
+    }),
+    db.transactionAsset.findMany({
+      where: { kind: "pick", pickRound: { not: null }, transaction: { leagueId: { in: leagueIds } } },
+      distinct: ["pickRound"],
+      select: { pickRound: true },
+      orderBy: { pickRound: "asc" },
+    }),
+  ]);
+
+  const facets: TransactionFacets = {
+    seasons: seasonRows.map((s) => ({ value: String(s.season), label: String(s.season) })),
+    types: (typeRows.map((t) => t.type).filter(Boolean) as string[])
+      .sort()
+      .map((t) => ({ value: t, label: prettyType(t) })),
+    statuses: (statusRows.map((t) => t.status).filter(Boolean) as string[])
+      .sort()
+      .map((t) => ({ value: t, label: prettyType(t) })),
+    // Filter labels should not show roster numbers; just name/owner
+    teams: Array.from(rootLabels.entries()).map(([rosterId, label]) => ({
+      value: String(rosterId),
+      label: label.trim(),
+    })),
+    teamsSeason,
+    pickRounds: roundRows.map((r) => ({ value: String(r.pickRound), label: `Round ${r.pickRound}` })),
+  };
+
+  return facets;
+}
+
+async function rebuildChainFacets(rootLeagueId: string) {
+  // Stored chain only: a request never asks Sleeper or writes LeagueSeason rows
+  const leagueIds = await storedLeagueChain(rootLeagueId);
+  const seasons = await db.leagueSeason.findMany({
+    where: { leagueId: { in: leagueIds } },
+    select: { leagueId: true, season: true },
+  });
+  const seasonToLeagueId = new Map(seasons.map((s) => [s.season, s.leagueId]));
+
+  // Read before computing: a sync finishing meanwhile leaves the cache stale, not wrong
+  const syncedThrough = await lastSyncedAt(leagueIds);
+
+  const newest = await db.transaction.findFirst({
+    where: { leagueId: { in: leagueIds } },
+    select: { season: true },
+    orderBy: { season: "desc" },
+  });
+  const teamsSeason = newest?.season ?? new Date().getFullYear();
+
+  // Team facet labels (newest season in root league)
+  const rootLabels = await rootRosterLabels(rootLeagueId, teamsSeason);
+  const facets = await computeFacets(leagueIds, rootLabels, teamsSeason);
+
+  const data = {
+    leagueIds,
+    seasonToLeagueId: Object.fromEntries(seasonToLeagueId),
+    facets,
+    syncedThrough,
+  };
+  await db.transactionFacetCache.upsert({
+    where: { rootLeagueId },
+    update: data,
+    create: { rootLeagueId, ...data },
+  });
+
+  return { leagueIds, facets };
+}
+
+/**
+ * League chain + facets for the transactions page; rebuilt only when a season of the
+ * chain has synced since the cached copy was made.
+ */
+export async function getChainFacets(rootLeagueId: string) {
+  const cached = await db.transactionFacetCache.findUnique({ where: { rootLeagueId } });
+
+  if (cached) {
+    const syncedThrough = await lastSyncedAt(cached.leagueIds);
+    if (syncedThrough?.getTime() === cached.syncedThrough?.getTime()) {
+      return { leagueIds: cached.leagueIds, facets: cached.facets as TransactionFacets };
+    }
+  }
+
+  return rebuildChainFacets(rootLeagueId);
+}
+
+/*
+  ---------------------------------------
+  Reading views
+  ---------------------------------------
+*/
+
+export type ViewCursor = { season: number; createdAt: Date; id: string };
+
+export function encodeCursor(c: ViewCursor) {
+  return Buffer.from(`${c.season}|${c.createdAt.toISOString()}|${c.id}`).toString("base64url");
+}
+
+export function decodeCursor(raw: string): ViewCursor | null {
+  const [season, createdAt, ...id] = Buffer.from(raw, "base64url").toString().split("|");
+  const c = { season: Number(season), createdAt: new Date(createdAt), id: id.join("|") };
+  return Number.isInteger(c.season) && !Number.isNaN(c.createdAt.getTime()) && c.id ? c : null;
+}
+
+export function viewWhere(leagueIds: string[], f: TransactionFilters) {
+  const where: Prisma.TransactionViewWhereInput = { leagueId: { in: leagueIds } };
+  if (f.seasons.length) where.season = { in: f.seasons };
+  if (f.types.length) where.type = { in: f.types };
+  if (f.statuses.length) where.status = { in: f.statuses };
+  if (f.teams.length) where.rosterIds = { hasSome: f.teams };
+  if (f.playerIds.length) {
+    where.playerIds =
+      f.playerMatch === "all" ? { hasEvery: f.playerIds } : { hasSome: f.playerIds };
+  }
+  if (f.weekFrom !== null || f.weekTo !== null) {
+    where.week = { gte: f.weekFrom ?? undefined, lte: f.weekTo ?? undefined };
+  }
+  if (f.from || f.until) {
+    where.createdAt = { gte: f.from ?? undefined, lt: f.until ?? undefined };
+  }
+  if (f.assetKinds.length) where.assetKinds = { hasSome: f.assetKinds };
+  if (f.pickRounds.length) where.pickRounds = { hasSome: f.pickRounds };
+  if (f.minFaab !== null) where.faab = { gte: f.minFaab };
+  return where;
+}
+
+export const viewOrderBy: Prisma.TransactionViewOrderByWithRelationInput[] = [
+  { season: "desc" },
+  { createdAt: "desc" },
+  { id: "desc" },
+];
+
+/**
+ * Rows strictly after the cursor in viewOrderBy order.
+ */
+export function afterCursor(c: ViewCursor): Prisma.TransactionViewWhereInput {
+  return {
+    OR: [
+      { season: { lt: c.season } },
+      { season: c.season, createdAt: { lt: c.createdAt } },
+      { season: c.season, createdAt: c.createdAt, id: { lt: c.id } },
+    ],
+  };
+}
+
+/*
+  ---------------------------------------
+  Free-text search
+  ---------------------------------------
+*/
+
+/**
+ * Lowercased words of a search box query; each matches as a word prefix.
+ */
+export function searchTerms(q: string) {
+  return uniq(q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, 8);
+}
+
+// Terms are letters/digits only, so they can't carry tsquery operators
+function prefixQuery(terms: string[]) {
+  return terms.map((t) => `${t}:*`).join(" & ");
+}
+
+/**
+ * Ids of the chain's transactions whose labels (players, managers, picks) or trade
+ * notes match every term of `q`.
+ */
+export async function searchTransactionIds(leagueIds: string[], q: string) {
+  const terms = searchTerms(q);
+  if (terms.length === 0) return null;
+  const query = prefixQuery(terms);
+
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    SELECT v."id"
+    FROM "TransactionView" v
+    WHERE v."leagueId" = ANY(${leagueIds})
+      AND (
+        v."searchVector" @@ to_tsquery('simple', ${query})
+        OR EXISTS (
+          SELECT 1 FROM "TradeNote" n
+          WHERE n."transactionId" = v."id"
+            AND to_tsvector('simple', n."body") @@ to_tsquery('simple', ${query})
+        )
+      )`;
+
+  return rows.map((r) => r.id);
+}
+
+export const NOTE_MARK_START = "«";
+export const NOTE_MARK_END = "»";
+
+/**
+ * Highlighted excerpt of the matching trade note(s), by transaction id; matches are
+ * wrapped in NOTE_MARK_START / NOTE_MARK_END.
+ */
+export async function noteHighlights(transactionIds: string[], q: string) {
+  const terms = searchTerms(q);
+  if (terms.length === 0 || transactionIds.length === 0) return new Map<string, string>();
+  const query = prefixQuery(terms);
+  const options = `StartSel=${NOTE_MARK_START}, StopSel=${NOTE_MARK_END}, MaxWords=20, MinWords=8`;
+
+  const rows = await db.$queryRaw<{ transactionId: string; excerpt: string }[]>`
+    SELECT n."transactionId",
+      ts_headline('simple', n."body", to_tsquery('simple', ${query}), ${options}) AS excerpt
+    FROM "TradeNote" n
+    WHERE n."transactionId" = ANY(${transactionIds})
+      AND to_tsvector('simple', n."body") @@ to_tsquery('simple', ${query})
+    ORDER BY n."createdAt" ASC`;
+
+  const out = new Map<string, string>();
+  for (const r of rows) {
+    const prev = out.get(r.transactionId);
+    out.set(r.transactionId, prev ? `${prev} … ${r.excerpt}` : r.excerpt);
+  }
+  return out;
+}
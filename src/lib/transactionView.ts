@@ -0,0 +1,639 @@
+import type { Prisma, TransactionAsset } from "@prisma/client";
+import { db } from "@/lib/db";
+import { getLeague } from "@/lib/sleeper";
+
+/*
+  Transaction read side
+
+  Filters, labels and the display shape shared by /api/transactions (paged, for the
+  UI) and /api/transactions/export (everything matching, streamed in batches).
+*/
+
+export type TransactionFilters = {
+  seasons: number[];
+  types: string[];
+  statuses: string[]; // empty = any status
+  teams: number[];
+  playerIds: string[];
+  playerMatch: "any" | "all"; // with several players: involving any of them, or all
+  q: string | null; // free-text search (lib/transactionReadModel searchTransactionIds)
+  weekFrom: number | null;
+  weekTo: number | null;
+  from: Date | null; // createdAt >= from
+  until: Date | null; // createdAt < until (the day after the `to` param)
+  assetKinds: AssetFilterKind[];
+  pickRounds: number[];
+  minFaab: number | null;
+};
+
+export const ASSET_FILTER_KINDS = ["player", "pick", "faab"] as const;
+export type AssetFilterKind = (typeof ASSET_FILTER_KINDS)[number];
+
+/**
+ * Asset kinds a filter kind covers (a dropped player is still a player move).
+ */
+export function assetKindsFor(kind: AssetFilterKind) {
+  return kind === "player" ? ["player", "player_drop"] : [kind];
+}
+
+export type TxItem = {
+  id: string;
+  leagueId: string;
+  season: number;
+  type: string;
+  typeLabel: string;
+  status: string; // complete | failed | pending
+  createdAt: string;
+
+  teams: string[];
+
+  // Trades
+  received: { rosterId: number; team: string; items: string[] }[];
+  sent: { rosterId: number; team: string; items: string[] }[];
+
+  // Non-trades
+  added?: { rosterId: number; team: string; items: string[]; faab?: number }[];
+  dropped?: { rosterId: number; team: string; items: string[] }[];
+  // Roster -> roster outside a trade (commissioner moves)
+  moved?: { fromRosterId: number; from: string; toRosterId: number; to: string; items: string[] }[];
+};
+
+export const txSelect = {
+  id: true,
+  leagueId: true,
+  season: true,
+  week: true,
+  type: true,
+  status: true,
+  createdAt: true,
+  rawJson: true,
+  assets: true,
+} satisfies Prisma.TransactionSelect;
+
+export type TxRow = Prisma.TransactionGetPayload<{ select: typeof txSelect }>;
+
+type LeagueSeasonRow = { leagueId: string; season: number; previousLeagueId: string | null };
+
+// Loose view of rawJson for the bits the labels still read from it
+type RawDraftPick = {
+  season?: unknown;
+  round?: unknown;
+  roster_id?: unknown;
+  owner_id?: unknown;
+  previous_owner_id?: unknown;
+};
+type RawTransaction = {
+  draft_picks?: RawDraftPick[];
+  settings?: { waiver_budget?: unknown; waiver_bid?: unknown };
+} | null;
+
+export function uniq<T>(arr: T[]) {
+  return Array.from(new Set(arr));
+}
+
+export function prettyType(type: string) {
+  return type
+    .split("_")
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+function csvToArray(v: string | null) {
+  if (!v) return [];
+  return v
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Query params of the transactions page:
+ *   season, type, status, team          csv lists
+ *   playerId (csv) + playerMatch=any|all
+ *   q                                    free text
+ *   weekFrom, weekTo                     inclusive week range
+ *   from, to                             inclusive YYYY-MM-DD range (UTC days)
+ *   assetKind (player|pick|faab csv), pickRound (csv), minFaab (dollars, > 0)
+ */
+function intParam(v: string | null) {
+  if (v === null || v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+// YYYY-MM-DD -> midnight UTC of that day
+function dayParam(v: string | null) {
+  if (!v || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return null;
+  const d = new Date(`${v}T00:00:00Z`);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+export function parseTransactionFilters(params: URLSearchParams): TransactionFilters {
+  const seasons = csvToArray(params.get("season"))
+    .map((s) => Number(s))
+    .filter((n) => Number.isFinite(n));
+
+  const types = csvToArray(params.get("type"));
+
+  // Completed moves only unless asked otherwise; status=all disables the filter
+  const statusParam = params.get("status");
+  const statusFilter = statusParam === null ? ["complete"] : csvToArray(statusParam);
+  const statuses = statusFilter.includes("all") ? [] : statusFilter;
+
+  const teams = csvToArray(params.get("team"))
+    .map((s) => Number(s))
+    .filter((n) => Number.isFinite(n));
+
+  // Server-side player filter (player ids selected from autocomplete)
+  const playerIds = csvToArray(params.get("playerId"));
+  const playerMatch = params.get("playerMatch") === "all" ? "all" : "any";
+
+  const q = (params.get("q") || "").trim().slice(0, 200) || null;
+
+  const from = dayParam(params.get("from"));
+  const to = dayParam(params.get("to"));
+  const until = to ? new Date(to.getTime() + 24 * 60 * 60 * 1000) : null;
+
+  const assetKinds = csvToArray(params.get("assetKind")).filter((k): k is AssetFilterKind =>
+    (ASSET_FILTER_KINDS as readonly string[]).includes(k)
+  );
+
+  const pickRounds = csvToArray(params.get("pickRound"))
+    .map((s) => Number(s))
+    .filter((n) => Number.isInteger(n) && n > 0);
+
+  return {
+    seasons,
+    types,
+    statuses,
+    teams,
+    playerIds,
+    playerMatch,
+    q,
+    weekFrom: intParam(params.get("weekFrom")),
+    weekTo: intParam(params.get("weekTo")),
+    from,
+    until,
+    assetKinds,
+    pickRounds,
+    minFaab: intParam(params.get("minFaab")) || null, // 0 = no filter
+  };
+}
+
+/**
+ * IMPORTANT FIX:
+ * Even if LeagueSeason exists, it might have previousLeagueId null/incorrect.
+ * We consult Sleeper if the chain would otherwise stop and upsert while walking.
+ */
+export async function getLeagueChain(rootLeagueId: string) {
+  const leagueIds: string[] = [];
+  const seasonToLeagueId = new Map<number, string>();
+
+  let cur: string | null = rootLeagueId;
+  let guard = 0;
+
+  while (cur && guard++ < 20) {
+    leagueIds.push(cur);
+
+    let row: LeagueSeasonRow | null = await db.leagueSeason.findFirst({
+      where: { leagueId: cur },
+      select: { leagueId: true, season: true, previousLeagueId: true },
+    });
+
+    const needsSleeper =
+      !row || row.previousLeagueId === null || !Number.isFinite(Number(row.season));
+
+    if (needsSleeper) {
+      const l = await getLeague(cur);
+      const season = Number(l.season);
+      const prev = l.previous_league_id ?? null;
+
+      if (Number.isFinite(season)) {
+        await db.leagueSeason.upsert({
+          where: { leagueId_season: { leagueId: cur, season } },
+          update: { previousLeagueId: prev },
+          create: { leagueId: cur, season, previousLeagueId: prev },
+        });
+        row = { leagueId: cur, season, previousLeagueId: prev };
+      } else {
+        row = { leagueId: cur, season: NaN, previousLeagueId: prev };
+      }
+    }
+
+    if (!row) break;
+
+    if (Number.isFinite(Number(row.season))) {
+      seasonToLeagueId.set(Number(row.season), row.leagueId);
+    }
+
+    cur = row.previousLeagueId ?? null;
+  }
+
+  return { leagueIds, seasonToLeagueId };
+}
+
+async function ownerLabels(ownerIds: string[]) {
+  const owners =
+    ownerIds.length > 0
+      ? await db.sleeperUser.findMany({
+          where: { sleeperUserId: { in: ownerIds } },
+          select: { sleeperUserId: true, displayName: true, username: true },
+        })
+      : [];
+
+  return new Map(owners.map((o) => [o.sleeperUserId, (o.displayName ?? o.username ?? "").trim()]));
+}
+
+/**
+ * Team names of the root league's newest season, by roster id: the team filter's
+ * labels, and the fallback label for rosters of seasons that weren't synced.
+ */
+export async function rootRosterLabels(rootLeagueId: string, season: number) {
+  const teamRosters = await db.roster.findMany({
+    where: { leagueId: rootLeagueId, season },
+    select: { rosterId: true, ownerId: true },
+    orderBy: { rosterId: "asc" },
+  });
+
+  const ownerMap = await ownerLabels(
+    uniq(teamRosters.map((r) => r.ownerId).filter((x): x is string => !!x))
+  );
+
+  const labels = new Map<number, string>();
+  for (const r of teamRosters) {
+    labels.set(r.rosterId, (r.ownerId && ownerMap.get(r.ownerId)) || `Roster ${r.rosterId}`);
+  }
+  return labels;
+}
+
+export type TxLabeler = Awaited<ReturnType<typeof createTxLabeler>>;
+
+/**
+ * Loads everything needed to label the given transactions (team names per season,
+ * players, drafted players for picks) and returns the label functions.
+ */
+export async function createTxLabeler(
+  rows: TxRow[],
+  ctx: { rootLabels: Map<number, string>; seasonToLeagueId: Map<number, string> }
+) {
+  const { rootLabels, seasonToLeagueId } = ctx;
+
+  // Roster labels for any (leagueId, season) in the batch
+  const leagueSeasonPairs = uniq(rows.map((t) => `${t.leagueId}::${t.season}`)).map((k) => {
+    const [lid, s] = k.split("::");
+    return { leagueId: lid, season: Number(s) };
+  });
+
+  const rosterRows =
+    leagueSeasonPairs.length > 0
+      ? await db.roster.findMany({
+          where: { OR: leagueSeasonPairs.map((p) => ({ leagueId: p.leagueId, season: p.season })) },
+          select: { leagueId: true, season: true, rosterId: true, ownerId: true },
+        })
+      : [];
+
+  const ownerMap = await ownerLabels(
+    uniq(rosterRows.map((r) => r.ownerId).filter((x): x is string => !!x))
+  );
+
+  const rosterLabelMap = new Map<string, string>();
+  for (const r of rosterRows) {
+    const label = (r.ownerId && ownerMap.get(r.ownerId)) || `Roster ${r.rosterId}`;
+    rosterLabelMap.set(`${r.leagueId}::${r.season}::${r.rosterId}`, label);
+  }
+
+  const rosterLabel = (lid: string, season: number, rosterId: number | null | undefined) => {
+    if (rosterId === null || rosterId === undefined) return "—";
+    return (
+      rosterLabelMap.get(`${lid}::${season}::${rosterId}`) ??
+      rootLabels.get(rosterId) ??
+      `Roster ${rosterId}`
+    );
+  };
+
+  // Players referenced in transaction assets
+  const playerIds = uniq(
+    rows.flatMap((t) => t.assets).map((a) => a.playerId).filter((x): x is string => !!x)
+  );
+
+  const players =
+    playerIds.length > 0
+      ? await db.sleeperPlayer.findMany({
+          where: { id: { in: playerIds } },
+          select: { id: true, fullName: true, position: true, team: true },
+        })
+      : [];
+
+  const playerMap = new Map(players.map((p) => [p.id, p]));
+
+  // Full player label for player assets in transactions (keep POS/TEAM here)
+  const playerLabel = (id: string) => {
+    const p = playerMap.get(id);
+    if (!p) return `Player ${id}`;
+    const name = p.fullName ?? `Player ${id}`;
+    const parts = [p.position, p.team].filter(Boolean);
+    return parts.length ? `${name} (${parts.join(", ")})` : name;
+  };
+
+  // ---- Draft pick "used on" lookup (safe version) ----
+  // We only attach drafted player when the original roster has exactly ONE pick in that round.
+  // key: `${leagueId}::${season}::${rosterId}::${round}` -> playerId | null
+  const draftedPlayerIdByRosterRound = new Map<string, string | null>();
+
+  async function loadDraftRoundUniqMapFor(leagueIdForSeason: string, season: number) {
+    // Drafts + picks are stored by the league sync
+    const completed = await db.draft.findMany({
+      where: { leagueId: leagueIdForSeason, season, status: "complete" },
+      select: { id: true, type: true },
+      orderBy: { startTime: "asc" },
+    });
+
+    const preferred =
+      completed.find((d) => (d.type ?? "").toLowerCase().includes("rookie")) ?? completed[0];
+
+    if (!preferred) return;
+
+    const picks = await db.draftPick.findMany({
+      where: { draftId: preferred.id, playerId: { not: null } },
+      select: { round: true, rosterId: true, originalRosterId: true, playerId: true },
+    });
+
+    // accumulate all player_ids per (original roster, round)
+    const acc = new Map<string, string[]>();
+    for (const p of picks) {
+      const rosterId = p.originalRosterId ?? p.rosterId;
+      if (rosterId === null || !p.playerId) continue;
+
+      const k = `${leagueIdForSeason}::${season}::${rosterId}::${p.round}`;
+      const list = acc.get(k) ?? [];
+      list.push(p.playerId);
+      acc.set(k, list);
+    }
+
+    // convert to "unique only" map
+    for (const [k, list] of acc.entries()) {
+      draftedPlayerIdByRosterRound.set(k, list.length === 1 ? list[0] : null);
+    }
+  }
+
+  const leagueForPickSeason = (t: TxRow, ys: number) =>
+    seasonToLeagueId.get(ys) || seasonToLeagueId.get(t.season) || t.leagueId;
+
+  // Pre-load draft lookups for any pick seasons in the batch
+  const neededDraftLookups = new Set<string>(); // `${lidForNames}::${ys}`
+  for (const t of rows) {
+    for (const a of t.assets) {
+      if (a.kind !== "pick" || a.pickSeason === null) continue;
+      neededDraftLookups.add(`${leagueForPickSeason(t, a.pickSeason)}::${a.pickSeason}`);
+    }
+  }
+
+  for (const k of neededDraftLookups) {
+    const [lid, s] = k.split("::");
+    const season = Number(s);
+    if (!lid || !Number.isFinite(season)) continue;
+    await loadDraftRoundUniqMapFor(lid, season);
+  }
+
+  // Load drafted player names (name-only, no pos/team)
+  const draftedIds = uniq(
+    Array.from(draftedPlayerIdByRosterRound.values()).filter(
+      (x): x is string => typeof x === "string" && x.length > 0
+    )
+  );
+
+  const draftedPlayers =
+    draftedIds.length > 0
+      ? await db.sleeperPlayer.findMany({
+          where: { id: { in: draftedIds } },
+          select: { id: true, fullName: true },
+        })
+      : [];
+
+  const draftedPlayerNameMap = new Map(draftedPlayers.map((p) => [p.id, p.fullName ?? p.id]));
+  const draftedPlayerNameOnly = (id: string) => draftedPlayerNameMap.get(id) ?? id;
+
+  // Assets synced before pickOriginalRosterId existed: infer it from rawJson.draft_picks
+  function guessOriginalRoster(
+    draftPicks: RawDraftPick[],
+    a: { fromRosterId: number | null; toRosterId: number | null },
+    ys: number,
+    rd: number
+  ): number | null {
+    // Candidates for this season+round
+    const candidates = draftPicks.filter((p) => {
+      const ps = Number(p?.season);
+      const pr = Number(p?.round);
+      return Number.isFinite(ps) && Number.isFinite(pr) && ps === ys && pr === rd;
+    });
+
+    // First try exact transfer match if we can
+    let match: RawDraftPick | null = null;
+    if (typeof a.fromRosterId === "number" && typeof a.toRosterId === "number") {
+      const exact = candidates.filter(
+        (p) => p?.previous_owner_id === a.fromRosterId && p?.owner_id === a.toRosterId
+      );
+      if (exact.length === 1) match = exact[0];
+    }
+
+    // If no exact, accept single candidate
+    if (!match && candidates.length === 1) match = candidates[0];
+
+    // If still multiple, we can still safely show ORIGINAL owner label if all candidates share roster_id
+    if (!match && candidates.length > 1) {
+      const rosterIds = uniq(
+        candidates
+          .map((p) => (typeof p?.roster_id === "number" ? p.roster_id : null))
+          .filter((x): x is number => typeof x === "number")
+      );
+
+      if (rosterIds.length === 1) {
+        match = candidates.find((p) => Number(p?.roster_id) === rosterIds[0]) ?? null;
+      }
+    }
+
+    // Still ambiguous -> don’t guess (prevents “same pick twice”)
+    return typeof match?.roster_id === "number" ? match.roster_id : null;
+  }
+
+  /**
+   * Roster the pick originally belonged to (stored, or inferred for old rows).
+   */
+  function pickOriginalRoster(t: TxRow, a: TransactionAsset) {
+    if (a.pickOriginalRosterId !== null) return a.pickOriginalRosterId;
+    if (a.pickSeason === null || a.pickRound === null) return null;
+
+    const raw = t.rawJson as RawTransaction;
+    const draftPicks = Array.isArray(raw?.draft_picks) ? raw.draft_picks : [];
+    return guessOriginalRoster(draftPicks, a, a.pickSeason, a.pickRound);
+  }
+
+  function pickLabel(t: TxRow, a: TransactionAsset) {
+    const ys = a.pickSeason;
+    const rd = a.pickRound;
+
+    const core = `${ys ?? "?"} R${rd ?? "?"}`;
+    if (ys === null || rd === null) return core;
+
+    const lidForNames = leagueForPickSeason(t, ys);
+
+    const originalRoster = pickOriginalRoster(t, a);
+    if (originalRoster === null) return core;
+
+    const originalTeam = rosterLabel(lidForNames, ys, originalRoster);
+    if (!originalTeam || originalTeam === "—") return core;
+
+    // drafted player only if unique for that roster+round
+    const k = `${lidForNames}::${ys}::${originalRoster}::${rd}`;
+    const draftedPid = draftedPlayerIdByRosterRound.get(k);
+    const draftedName =
+      draftedPid && typeof draftedPid === "string" ? draftedPlayerNameOnly(draftedPid) : null;
+
+    const extra = draftedName ? ` ${draftedName}` : "";
+    return `${core} (${originalTeam} pick${extra})`;
+  }
+
+  function assetLabel(t: TxRow, a: TransactionAsset) {
+    if (a.kind === "pick") return pickLabel(t, a);
+    if (a.kind === "faab") return `FAAB $${a.faabAmount ?? 0}`;
+    if (a.playerId) return playerLabel(a.playerId);
+    return a.kind ?? "asset";
+  }
+
+  return { rosterLabel, playerLabel, pickOriginalRoster, assetLabel };
+}
+
+/**
+ * Display shape of one transaction: who received/sent what (trades), or who
+ * added/dropped what (everything else).
+ */
+export function toTxItem(t: TxRow, labels: TxLabeler): TxItem {
+  const { rosterLabel, assetLabel } = labels;
+
+  const involvedRosterIds = uniq(
+    t.assets
+      .flatMap((a) => [a.fromRosterId, a.toRosterId])
+      .filter((x): x is number => typeof x === "number")
+  );
+
+  const teams = involvedRosterIds
+    .map((rid) => rosterLabel(t.leagueId, t.season, rid))
+    .filter((x) => x !== "—");
+
+  const base = {
+    id: t.id,
+    leagueId: t.leagueId,
+    season: t.season,
+    type: t.type,
+    typeLabel: prettyType(t.type),
+    status: t.status,
+    createdAt: t.createdAt.toISOString(),
+    teams,
+  };
+
+  if (t.type === "trade") {
+    const recvMap = new Map<number, string[]>();
+    const sentMap = new Map<number, string[]>();
+
+    for (const a of t.assets) {
+      const from = a.fromRosterId;
+      const to = a.toRosterId;
+      if (typeof from === "number" && typeof to === "number" && from !== to) {
+        const recv = recvMap.get(to) ?? [];
+        recv.push(assetLabel(t, a));
+        recvMap.set(to, recv);
+
+        const sent = sentMap.get(from) ?? [];
+        sent.push(assetLabel(t, a));
+        sentMap.set(from, sent);
+      }
+    }
+
+    const received = Array.from(recvMap.entries())
+      .map(([rid, list]) => ({
+        rosterId: rid,
+        team: rosterLabel(t.leagueId, t.season, rid),
+        items: list,
+      }))
+      .sort((a, b) => a.rosterId - b.rosterId);
+
+    const sent = Array.from(sentMap.entries())
+      .map(([rid, list]) => ({
+        rosterId: rid,
+        team: rosterLabel(t.leagueId, t.season, rid),
+        items: list,
+      }))
+      .sort((a, b) => a.rosterId - b.rosterId);
+
+    return { ...base, received, sent };
+  }
+
+  const addedMap = new Map<number, { items: string[]; faab?: number }>();
+  const droppedMap = new Map<number, string[]>();
+  const movedMap = new Map<string, { from: number; to: number; items: string[] }>();
+
+  const raw = t.rawJson as RawTransaction;
+  const wb1 = Number(raw?.settings?.waiver_budget);
+  const wb2 = Number(raw?.settings?.waiver_bid);
+  const waiverBid =
+    (Number.isFinite(wb1) && wb1 > 0 ? wb1 : undefined) ??
+    (Number.isFinite(wb2) && wb2 > 0 ? wb2 : undefined);
+
+  for (const a of t.assets) {
+    // The waiver bid is shown on the claim itself (faab below), not as a dropped item
+    if (a.kind === "faab") continue;
+
+    const from = a.fromRosterId;
+    const to = a.toRosterId;
+
+    if (from === null && typeof to === "number") {
+      const entry = addedMap.get(to) ?? { items: [], faab: undefined };
+      entry.items.push(assetLabel(t, a));
+      if (t.type === "waiver" && waiverBid !== undefined) entry.faab = waiverBid;
+      addedMap.set(to, entry);
+    }
+
+    if (to === null && typeof from === "number") {
+      const list = droppedMap.get(from) ?? [];
+      list.push(assetLabel(t, a));
+      droppedMap.set(from, list);
+    }
+
+    if (typeof from === "number" && typeof to === "number" && from !== to) {
+      const key = `${from}>${to}`;
+      const entry = movedMap.get(key) ?? { from, to, items: [] };
+      entry.items.push(assetLabel(t, a));
+      movedMap.set(key, entry);
+    }
+  }
+
+  const added = Array.from(addedMap.entries())
+    .map(([rid, entry]) => ({
+      rosterId: rid,
+      team: rosterLabel(t.leagueId, t.season, rid),
+      items: entry.items,
+      faab: entry.faab,
+    }))
+    .sort((a, b) => a.rosterId - b.rosterId);
+
+  const dropped = Array.from(droppedMap.entries())
+    .map(([rid, list]) => ({
+      rosterId: rid,
+      team: rosterLabel(t.leagueId, t.season, rid),
+      items: list,
+    }))
+    .sort((a, b) => a.rosterId - b.rosterId);
+
+  const moved = Array.from(movedMap.values())
+    .map((m) => ({
+      fromRosterId: m.from,
+      from: rosterLabel(t.leagueId, t.season, m.from),
+      toRosterId: m.to,
+      to: rosterLabel(t.leagueId, t.season, m.to),
+      items: m.items,
+    }))
+    .sort((a, b) => a.fromRosterId - b.fromRosterId || a.toRosterId - b.toRosterId);
+
+  return { ...base, received: [], sent: [], added, dropped, moved };
+}
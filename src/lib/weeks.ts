@@ -0,0 +1,71 @@
+import type { SleeperLeague, SleeperNflState } from "@/lib/sleeperSchemas";
+
+/*
+  Which weeks of a season hold data
+
+  Derived from the league's own settings (start week, playoff start, playoff teams,
+  playoff round type) instead of assuming 18 weeks, and capped at the current NFL
+  week while the season is still being played.
+*/
+
+export type WeekRange = { from: number; to: number }; // inclusive; empty when to < from
+
+export type SeasonWeeks = {
+  matchups: WeekRange;
+  transactions: WeekRange;
+  inProgress: boolean;
+};
+
+/**
+ * NFL regular season went from 17 to 18 weeks in 2021.
+ */
+export function nflLastWeek(season: number) {
+  return season >= 2021 ? 18 : 17;
+}
+
+function playoffWeeks(playoffTeams: number, roundType: number) {
+  const rounds = Math.max(1, Math.ceil(Math.log2(Math.max(2, playoffTeams))));
+  if (roundType === 2) return rounds * 2; // two weeks per round
+  if (roundType === 1) return rounds + 1; // two-week championship
+  return rounds;
+}
+
+export function computeSeasonWeeks(league: SleeperLeague, nflState: SleeperNflState): SeasonWeeks {
+  const season = Number(league.season);
+  const settings = league.settings ?? {};
+  const maxWeek = nflLastWeek(season);
+
+  const startWeek = Math.max(1, settings.start_week ?? 1);
+  const playoffStart = settings.playoff_week_start ?? 0;
+
+  // Regular season + playoffs; leagues without playoffs run to the NFL's last week
+  let lastWeek =
+    playoffStart > 0
+      ? playoffStart - 1 + playoffWeeks(settings.playoff_teams ?? 6, settings.playoff_round_type ?? 0)
+      : maxWeek;
+  lastWeek = Math.min(lastWeek, maxWeek);
+
+  // Transactions aren't bound to the playoffs: post-playoff drops and commissioner
+  // moves happen through the NFL's last week
+  let lastTransactionWeek = maxWeek;
+
+  // In-progress (or not yet started) season: nothing past the current NFL week exists yet
+  const nflSeason = Number(nflState.season);
+  const inProgress = league.status !== "complete" && season >= nflSeason;
+
+  if (inProgress) {
+    const playing =
+      season === nflSeason && (nflState.season_type === "regular" || nflState.season_type === "post");
+    const currentWeek = playing ? Math.max(0, nflState.leg ?? nflState.week) : 0;
+    lastWeek = Math.min(lastWeek, currentWeek);
+    // keep at least week 1 for pre-season waivers
+    lastTransactionWeek = Math.max(1, Math.min(lastTransactionWeek, currentWeek));
+  }
+
+  return {
+    matchups: { from: startWeek, to: lastWeek },
+    // week 0 holds offseason moves
+    transactions: { from: 0, to: lastTransactionWeek },
+    inProgress,
+  };
+}